@@ -1,6 +1,28 @@
 import {themes as prismThemes} from 'prism-react-renderer';
 import type {Config} from '@docusaurus/types';
 import type * as Preset from '@docusaurus/preset-classic';
+import remarkMath from 'remark-math';
+import rehypeKatex from 'rehype-katex';
+import remarkValidateMermaid from './plugins/remark-validate-mermaid';
+import quizFrontMatter from './plugins/quiz-front-matter';
+import withDocMetadata from './plugins/reading-time';
+import socialCards, {SITE_CARD, withSocialCard} from './plugins/social-cards';
+import typographyPreferences from './plugins/typography-preferences';
+import contributors from './plugins/contributors';
+import docFrontMatter from './plugins/doc-front-matter';
+import learningPathsPlugin from './plugins/learning-paths';
+import learningPaths from './learningPaths';
+import siteOverview from './plugins/site-overview';
+import codeShowcase from './plugins/code-showcase';
+import algorithmComparison from './plugins/algorithm-comparison';
+import goSnippets, {GO_SNIPPETS_STATIC_DIR} from './plugins/go-snippets';
+
+const repositoryUrl = 'https://github.com/l00pss/the8armshub';
+// Front matter parsers get no LoadContext, this file sits in the site directory
+const siteDir = __dirname;
+
+// Fail the build on diagrams that don't parse, like onBrokenLinks does for links
+const mermaidValidation = [remarkValidateMermaid, {onInvalidDiagram: 'throw'}];
 
 const config: Config = {
   title: 'SupDino',
@@ -19,6 +41,18 @@ const config: Config = {
 
   onBrokenLinks: 'throw',
 
+  // The generated directory holds the per-doc zips of Go snippets
+  staticDirectories: ['static', GO_SNIPPETS_STATIC_DIR],
+
+  customFields: {
+    repositoryUrl,
+  },
+
+  markdown: {
+    mermaid: true,
+    parseFrontMatter: withSocialCard(withDocMetadata(quizFrontMatter(siteDir), siteDir), siteDir),
+  },
+
   i18n: {
     defaultLocale: 'en',
     locales: ['en'],
@@ -30,9 +64,12 @@ const config: Config = {
       {
         docs: {
           sidebarPath: './sidebars.ts',
-          editUrl: 'https://github.com/l00pss/supdino/tree/main/',
+          editUrl: `${repositoryUrl}/tree/main/`,
           showLastUpdateAuthor: false,
           showLastUpdateTime: false,
+          beforeDefaultRemarkPlugins: [mermaidValidation],
+          remarkPlugins: [remarkMath],
+          rehypePlugins: [rehypeKatex],
         },
         blog: {
           showReadingTime: true,
@@ -40,19 +77,44 @@ const config: Config = {
             type: ['rss', 'atom'],
             xslt: true,
           },
-          editUrl: 'https://github.com/l00pss/supdino/tree/main/',
+          editUrl: `${repositoryUrl}/tree/main/`,
           onInlineTags: 'warn',
           onInlineAuthors: 'warn',
           onUntruncatedBlogPosts: 'warn',
+          beforeDefaultRemarkPlugins: [mermaidValidation],
+          remarkPlugins: [remarkMath],
+          rehypePlugins: [rehypeKatex],
+        },
+        pages: {
+          beforeDefaultRemarkPlugins: [mermaidValidation],
         },
         theme: {
-          customCss: './src/css/custom.css',
+          // KaTeX styles and fonts are bundled, so math renders without a CDN. They load first so
+          // the .katex overrides in custom.css win. The dyslexia-friendly font is only downloaded once a
+          // reader picks it in the reading preferences
+          customCss: [
+            require.resolve('katex/dist/katex.min.css'),
+            require.resolve('@fontsource/opendyslexic/400.css'),
+            require.resolve('@fontsource/opendyslexic/700.css'),
+            './src/css/custom.css',
+          ],
         },
       } satisfies Preset.Options,
     ],
   ],
 
+  themes: ['@docusaurus/theme-mermaid'],
+
   plugins: [
+    typographyPreferences,
+    socialCards,
+    contributors,
+    docFrontMatter,
+    [learningPathsPlugin, {paths: learningPaths}],
+    siteOverview,
+    codeShowcase,
+    algorithmComparison,
+    goSnippets,
     [
       '@easyops-cn/docusaurus-search-local',
       {
@@ -65,7 +127,7 @@ const config: Config = {
   ],
 
   themeConfig: {
-    image: 'img/supdino-social-card.jpg',
+    image: SITE_CARD,
     colorMode: {
       respectPrefersColorScheme: true,
       defaultMode: 'light',
@@ -86,12 +148,22 @@ const config: Config = {
           position: 'left',
           label: 'Docs',
         },
+        {
+          to: '/paths',
+          label: 'Learning paths',
+          position: 'left',
+        },
         {
           type: 'search',
           position: 'left',
         },
         {
-          href: 'https://github.com/l00pss/supdino',
+          to: '/notes',
+          label: 'My notes',
+          position: 'right',
+        },
+        {
+          href: repositoryUrl,
           label: 'GitHub',
           position: 'right',
         },
@@ -126,21 +198,24 @@ const config: Config = {
             },
             {
               label: 'GitHub',
-              href: 'https://github.com/l00pss/supdino',
+              href: repositoryUrl,
             },
             {
               label: 'Contribute',
-              href: 'https://github.com/l00pss/supdino/blob/main/CONTRIBUTING.md',
+              href: `${repositoryUrl}/blob/main/CONTRIBUTING.md`,
             },
           ],
         },
       ],
       copyright: `Copyright © ${new Date().getFullYear()} SupDino. All rights reserved.`,
     },
+    mermaid: {
+      theme: {light: 'neutral', dark: 'dark'},
+    },
     prism: {
       theme: prismThemes.github,
       darkTheme: prismThemes.dracula,
-      additionalLanguages: ['go', 'bash', 'json'],
+      additionalLanguages: ['go', 'bash', 'json', 'java', 'python', 'typescript'],
     },
     docs: {
       sidebar: {
@@ -0,0 +1,33 @@
+import type {LearningPathConfig} from './src/components/LearningPaths/learningPaths';
+
+// Curated learning paths, shown on /paths next to the prerequisite graph. Docs are listed by id
+// in reading order; the build fails on unknown ids and on docs listed before their prerequisites
+const learningPaths: LearningPathConfig[] = [
+  {
+    id: 'sorting-fundamentals',
+    title: 'Sorting fundamentals',
+    description: 'From the quadratic classics to the O(n log n) algorithms behind standard libraries.',
+    docs: [
+      'algorithms/intro',
+      'algorithms/sorting/bubble-sort',
+      'algorithms/sorting/selection-sort',
+      'algorithms/sorting/insertion-sort',
+      'algorithms/sorting/merge-sort',
+      'algorithms/sorting/quick-sort',
+      'algorithms/sorting/heap-sort',
+    ],
+  },
+  {
+    id: 'storage-engine-internals',
+    title: 'Storage engine internals',
+    description: 'How databases make writes durable, keep their logs manageable and decide what is safe to discard.',
+    docs: [
+      'distributed-systems/intro',
+      'distributed-systems/replication/wal',
+      'distributed-systems/replication/segmented-log',
+      'distributed-systems/replication/low-water-mark',
+    ],
+  },
+];
+
+export default learningPaths;
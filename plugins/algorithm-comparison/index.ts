@@ -0,0 +1,168 @@
+import fs from 'fs/promises';
+import path from 'path';
+import type {LoadContext, Plugin} from '@docusaurus/types';
+import type {LoadedContent as DocsContent} from '@docusaurus/plugin-content-docs';
+import type {
+  AlgorithmComparisonData,
+  AlgorithmSummary,
+} from '../../src/components/AlgorithmComparison/algorithms';
+import {
+  CASES,
+  isAlgorithmDoc,
+  validateDocFrontMatter,
+  type CaseComplexity,
+  type Complexity,
+} from '../../src/components/DocMeta/frontMatter';
+import {docCategories} from '../doc-categories';
+
+type Case = keyof CaseComplexity;
+
+// What a "## Complexity Analysis" section states in its bullet lists
+interface ComplexitySummary {
+  time: Partial<CaseComplexity>;
+  space?: string | Partial<CaseComplexity>;
+}
+
+const BIG_O = /O\((?:[^()]|\([^()]*\))*\)/;
+
+// "O(n²)" and "O(n^2)" are the same bound
+function normalize(bigO: string): string {
+  return bigO.replace(/²/g, '^2').replace(/³/g, '^3').replace(/\s+/g, '');
+}
+
+// Cases a bullet label such as "Best Case", "Best/Average Case" or "Overall" refers to
+function labelCases(label: string): Case[] {
+  const lower = label.toLowerCase();
+  return lower.includes('overall') ? CASES : CASES.filter((complexityCase) => lower.includes(complexityCase));
+}
+
+// One summary per "## Complexity Analysis" section of the Markdown source
+function readSummaries(source: string): ComplexitySummary[] {
+  const summaries: ComplexitySummary[] = [];
+  let summary: ComplexitySummary | undefined;
+  let subsection: 'time' | 'space' | undefined;
+  for (const line of source.split('\n')) {
+    if (line.startsWith('## ')) {
+      summary = /^## Complexity Analysis\s*$/.test(line) ? {time: {}} : undefined;
+      if (summary) {
+        summaries.push(summary);
+      }
+      subsection = undefined;
+    } else if (summary && line.startsWith('### ')) {
+      subsection = /time/i.test(line) ? 'time' : /space/i.test(line) ? 'space' : undefined;
+    } else if (summary && subsection) {
+      const bullet = /^[-*]\s+\*\*([^*]+)\*\*:?\s*(.*)$/.exec(line);
+      const value = bullet && (BIG_O.exec(bullet[1]) ?? BIG_O.exec(bullet[2]))?.[0];
+      if (!bullet || !value) {
+        continue;
+      }
+      const cases = labelCases(bullet[1]);
+      if (subsection === 'time') {
+        cases.forEach((complexityCase) => (summary!.time[complexityCase] = value));
+      } else if (cases.length > 0) {
+        const space = typeof summary.space === 'object' ? summary.space : {};
+        cases.forEach((complexityCase) => (space[complexityCase] = value));
+        summary.space = space;
+      } else if (BIG_O.test(bullet[1]) || /space complexity/i.test(bullet[1])) {
+        summary.space ??= value;
+      }
+    }
+  }
+  return summaries;
+}
+
+// Differences in shape or value between the front matter and a summary
+function compareSummary(complexity: Complexity, summary: ComplexitySummary): string[] {
+  const errors: string[] = [];
+  const stated = CASES.filter((complexityCase) => summary.time[complexityCase]);
+  if (stated.length > 0) {
+    for (const complexityCase of CASES) {
+      const value = summary.time[complexityCase];
+      if (!value) {
+        errors.push(`the summary gives no ${complexityCase}-case time`);
+      } else if (normalize(value) !== normalize(complexity.time[complexityCase])) {
+        errors.push(`the summary gives ${complexityCase}-case time ${value}, complexity.time.${complexityCase} is ${complexity.time[complexityCase]}`);
+      }
+    }
+  }
+
+  const {space} = summary;
+  if (typeof space === 'string') {
+    if (typeof complexity.space !== 'string') {
+      errors.push(`the summary gives a single space bound ${space}, complexity.space lists one per case`);
+    } else if (normalize(space) !== normalize(complexity.space)) {
+      errors.push(`the summary gives space ${space}, complexity.space is ${complexity.space}`);
+    }
+  } else if (space) {
+    if (typeof complexity.space === 'string') {
+      errors.push(`the summary gives space per case, complexity.space is a single bound ${complexity.space}`);
+    } else {
+      for (const complexityCase of CASES) {
+        const value = space[complexityCase];
+        if (!value) {
+          errors.push(`the summary gives no ${complexityCase}-case space`);
+        } else if (normalize(value) !== normalize(complexity.space[complexityCase])) {
+          errors.push(`the summary gives ${complexityCase}-case space ${value}, complexity.space.${complexityCase} is ${complexity.space[complexityCase]}`);
+        }
+      }
+    }
+  }
+  return errors;
+}
+
+// Publishes every algorithm doc's complexity for the comparison table, and fails the build
+// when a doc's "Complexity Analysis" section contradicts its front matter
+export default function algorithmComparisonPlugin(context: LoadContext): Plugin {
+  return {
+    name: 'algorithm-comparison',
+    async allContentLoaded({allContent, actions}) {
+      const content = allContent['docusaurus-plugin-content-docs']?.default as DocsContent | undefined;
+      const version = content?.loadedVersions.find((loadedVersion) => loadedVersion.isLast);
+      if (!content || !version) {
+        return;
+      }
+      const categories = docCategories(content);
+      const order = [...categories.keys()];
+      const rank = (id: string) => (order.includes(id) ? order.indexOf(id) : order.length);
+      const docIds = version.docs.map((doc) => doc.id);
+
+      const algorithms: AlgorithmSummary[] = [];
+      const problems: string[] = [];
+      for (const doc of [...version.docs].sort((a, b) => rank(a.id) - rank(b.id))) {
+        // plugins/doc-front-matter reports docs with invalid front matter
+        if (!isAlgorithmDoc(doc.id) || validateDocFrontMatter(doc.id, doc.frontMatter, docIds).length > 0) {
+          continue;
+        }
+        const {complexity, stable, in_place: inPlace} = doc.frontMatter as {
+          complexity: Complexity;
+          stable?: boolean;
+          in_place?: boolean;
+        };
+        algorithms.push({
+          id: doc.id,
+          title: doc.title,
+          permalink: doc.permalink,
+          category: categories.get(doc.id)?.at(-1) ?? 'Algorithms',
+          complexity,
+          stable,
+          inPlace,
+        });
+
+        const source = doc.source.replace(/^@site\//, '');
+        const summaries = readSummaries(await fs.readFile(path.join(context.siteDir, source), 'utf8'));
+        const errors = [...new Set(summaries.flatMap((summary) => compareSummary(complexity, summary)))];
+        if (errors.length > 0) {
+          problems.push(`${source}:\n${errors.map((error) => `  - ${error}`).join('\n')}`);
+        }
+      }
+      if (problems.length > 0) {
+        throw new Error(
+          `${problems.length} ${problems.length === 1 ? 'doc has' : 'docs have'} a Complexity Analysis section that disagrees with the complexity front matter:\n${problems.join('\n')}`,
+        );
+      }
+
+      const data: AlgorithmComparisonData = {algorithms};
+      actions.setGlobalData(data);
+    },
+  };
+}
@@ -0,0 +1,28 @@
+export interface Fence {
+  language: string;
+  meta: string;
+  code: string;
+  line: number;
+}
+
+// Fenced code blocks of a Markdown file, with the line their opening fence is on
+export function readFences(source: string): Fence[] {
+  const fences: Fence[] = [];
+  const lines = source.split('\n');
+  for (let i = 0; i < lines.length; i++) {
+    const open = /^(\s*)(`{3,}|~{3,})([^\s`]*)\s*(.*)$/.exec(lines[i]);
+    if (!open) {
+      continue;
+    }
+    const [, indent, marker, language, meta] = open;
+    const body: string[] = [];
+    let j = i + 1;
+    while (j < lines.length && !new RegExp(`^\\s*${marker[0]}{${marker.length},}\\s*$`).test(lines[j])) {
+      body.push(lines[j].startsWith(indent) ? lines[j].slice(indent.length) : lines[j].trimStart());
+      j++;
+    }
+    fences.push({language, meta, code: body.join('\n'), line: i + 1});
+    i = j;
+  }
+  return fences;
+}
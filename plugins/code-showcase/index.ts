@@ -0,0 +1,68 @@
+import fs from 'fs/promises';
+import path from 'path';
+import type {LoadContext, Plugin} from '@docusaurus/types';
+import type {LoadedContent as DocsContent} from '@docusaurus/plugin-content-docs';
+import type {
+  CodeShowcaseData,
+  ShowcaseSnippet,
+} from '../../src/components/CodeShowcase/codeShowcase';
+import {docCategories} from '../doc-categories';
+import {readFences} from '../code-fences';
+
+// Longer snippets don't fit the hero
+const MAX_LINES = 30;
+
+const EXTENSIONS: Record<string, string> = {
+  go: 'go',
+  java: 'java',
+  javascript: 'js',
+  python: 'py',
+  typescript: 'ts',
+};
+
+// Publishes the code fences marked `showcase` in the docs, shown in rotation on the homepage
+export default function codeShowcasePlugin(context: LoadContext): Plugin {
+  return {
+    name: 'code-showcase',
+    async allContentLoaded({allContent, actions}) {
+      const content = allContent['docusaurus-plugin-content-docs']?.default as DocsContent | undefined;
+      const version = content?.loadedVersions.find((loadedVersion) => loadedVersion.isLast);
+      if (!content || !version) {
+        return;
+      }
+      const order = [...docCategories(content).keys()];
+      const rank = (id: string) => (order.includes(id) ? order.indexOf(id) : order.length);
+      const docs = [...version.docs].sort((a, b) => rank(a.id) - rank(b.id));
+
+      const snippets: ShowcaseSnippet[] = [];
+      const errors: string[] = [];
+      for (const doc of docs) {
+        const source = doc.source.replace(/^@site\//, '');
+        const fences = readFences(await fs.readFile(path.join(context.siteDir, source), 'utf8'));
+        for (const fence of fences.filter((candidate) => /(^|\s)showcase(\s|$)/.test(candidate.meta))) {
+          const lineCount = fence.code.split('\n').length;
+          if (!fence.language) {
+            errors.push(`${source}:${fence.line}: showcase snippets need a language`);
+          } else if (lineCount > MAX_LINES) {
+            errors.push(`${source}:${fence.line}: showcase snippets can have at most ${MAX_LINES} lines, this one has ${lineCount}`);
+          }
+          const title = /title=(["'])(.*?)\1/.exec(fence.meta)?.[2];
+          const extension = EXTENSIONS[fence.language] ?? fence.language;
+          snippets.push({
+            code: fence.code,
+            language: fence.language,
+            fileName: title ?? `${path.basename(source, path.extname(source)).replace(/-/g, '_')}.${extension}`,
+            docTitle: doc.title,
+            permalink: doc.permalink,
+          });
+        }
+      }
+      if (errors.length > 0) {
+        throw new Error(`Invalid showcase snippets:\n${errors.map((error) => `  - ${error}`).join('\n')}`);
+      }
+
+      const data: CodeShowcaseData = {snippets};
+      actions.setGlobalData(data);
+    },
+  };
+}
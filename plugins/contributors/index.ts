@@ -0,0 +1,132 @@
+import fs from 'fs/promises';
+import path from 'path';
+import yaml from 'js-yaml';
+import type {LoadContext, Plugin} from '@docusaurus/types';
+import type {LoadedContent as DocsContent} from '@docusaurus/plugin-content-docs';
+import type {
+  Contributor,
+  ContributorsData,
+  PageContributor,
+} from '../../src/components/Contributors/contributors';
+import {gitCommits} from '../git-history';
+
+// Shared with the blog, which reads it for post authors
+const AUTHORS_FILE = 'blog/authors.yml';
+
+// Same handle to URL mapping the blog applies to socials
+const SOCIAL_URLS: Record<string, (handle: string) => string> = {
+  github: (handle) => `https://github.com/${handle}`,
+  linkedin: (handle) => `https://www.linkedin.com/in/${handle}/`,
+  x: (handle) => `https://x.com/${handle}`,
+  twitter: (handle) => `https://twitter.com/${handle}`,
+  bluesky: (handle) => `https://bsky.app/profile/${handle}`,
+};
+
+interface AuthorEntry {
+  contributor: Contributor;
+  // Lower-cased commit emails that belong to this entry
+  emails: string[];
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function optionalString(value: unknown): string | undefined {
+  return typeof value === 'string' ? value : undefined;
+}
+
+async function readAuthors(siteDir: string): Promise<AuthorEntry[]> {
+  const data = yaml.load(await fs.readFile(path.join(siteDir, AUTHORS_FILE), 'utf8'));
+  if (!isRecord(data)) {
+    throw new Error(`${AUTHORS_FILE} should map author keys to author data`);
+  }
+
+  return Object.entries(data).map(([key, author]) => {
+    if (!isRecord(author) || typeof author.name !== 'string') {
+      throw new Error(`${AUTHORS_FILE}: author "${key}" needs a name`);
+    }
+    const socials = Object.fromEntries(
+      Object.entries(isRecord(author.socials) ? author.socials : {})
+        .filter((entry): entry is [string, string] => typeof entry[1] === 'string')
+        .map(([platform, handle]) => [
+          platform,
+          /^https?:\/\//.test(handle) || !SOCIAL_URLS[platform] ? handle : SOCIAL_URLS[platform](handle),
+        ]),
+    );
+    const github = isRecord(author.socials) ? optionalString(author.socials.github) : undefined;
+    const emails = [
+      author.email,
+      ...(Array.isArray(author.git_emails) ? author.git_emails : []),
+      // GitHub web edits and squash merges commit as <id>+<handle>@users.noreply.github.com
+      github && `${github}@users.noreply.github.com`,
+    ].filter((email): email is string => typeof email === 'string' && email !== '');
+
+    return {
+      contributor: {
+        key,
+        name: author.name,
+        title: optionalString(author.title),
+        imageURL: optionalString(author.image_url),
+        url: optionalString(author.url),
+        socials,
+      },
+      emails: emails.map((email) => email.toLowerCase()),
+    };
+  });
+}
+
+function matchAuthor(authors: AuthorEntry[], email: string): Contributor | undefined {
+  const address = email.toLowerCase().replace(/^\d+\+/, '');
+  return authors.find((author) => author.emails.includes(address))?.contributor;
+}
+
+// Everyone who committed to the file, most commits first; empty outside a git checkout
+async function gitContributors(filePath: string, authors: AuthorEntry[]): Promise<PageContributor[]> {
+  const byPerson = new Map<string, PageContributor>();
+  for (const {author: name, email, date} of await gitCommits(filePath)) {
+    const author = matchAuthor(authors, email);
+    const id = author?.key ?? email.toLowerCase();
+    const existing = byPerson.get(id);
+    if (existing) {
+      existing.commits++;
+    } else {
+      // git log lists newest first, so the first commit seen is the latest
+      byPerson.set(id, {name: author?.name ?? name, key: author?.key, commits: 1, lastCommit: date});
+    }
+  }
+  return [...byPerson.values()].sort((a, b) => b.commits - a.commits);
+}
+
+// Publishes the contributors of blog/authors.yml and, per doc, its front matter authors and git contributors
+export default function contributorsPlugin(context: LoadContext): Plugin {
+  return {
+    name: 'contributors',
+    async allContentLoaded({allContent, actions}) {
+      const authors = await readAuthors(context.siteDir);
+      const docsContent = allContent['docusaurus-plugin-content-docs']?.default as DocsContent | undefined;
+      const docs = docsContent?.loadedVersions.flatMap((version) => version.docs) ?? [];
+
+      const data: ContributorsData = {
+        contributors: authors.map((author) => author.contributor),
+        docs: {},
+      };
+      for (const doc of docs) {
+        const docAuthors = doc.frontMatter.authors ?? [];
+        const source = doc.source.replace(/^@site\//, '');
+        if (!Array.isArray(docAuthors) || !docAuthors.every((key) => typeof key === 'string')) {
+          throw new Error(`${source} should list its authors as keys of ${AUTHORS_FILE}`);
+        }
+        const unknown = docAuthors.filter((key) => !authors.some((author) => author.contributor.key === key));
+        if (unknown.length > 0) {
+          throw new Error(`${source} lists authors missing from ${AUTHORS_FILE}: ${unknown.join(', ')}`);
+        }
+        data.docs[doc.id] = {
+          authors: docAuthors,
+          contributors: await gitContributors(path.join(context.siteDir, source), authors),
+        };
+      }
+      actions.setGlobalData(data);
+    },
+  };
+}
@@ -0,0 +1,21 @@
+import type {LoadedContent as DocsContent} from '@docusaurus/plugin-content-docs';
+
+type SidebarItem = DocsContent['loadedVersions'][number]['sidebars'][string][number];
+
+// Labels of the categories around every doc in the sidebars, outermost first, in sidebar order
+export function docCategories(content: DocsContent): Map<string, string[]> {
+  const categories = new Map<string, string[]>();
+  const visit = (items: SidebarItem[], labels: string[]) => {
+    for (const item of items) {
+      if (item.type === 'category') {
+        visit(item.items, [...labels, item.label]);
+      } else if ((item.type === 'doc' || item.type === 'ref') && !categories.has(item.id)) {
+        categories.set(item.id, labels);
+      }
+    }
+  };
+  for (const version of content.loadedVersions) {
+    Object.values(version.sidebars).forEach((sidebar) => visit(sidebar, []));
+  }
+  return categories;
+}
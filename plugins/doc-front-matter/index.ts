@@ -0,0 +1,27 @@
+import type {Plugin} from '@docusaurus/types';
+import type {LoadedContent as DocsContent} from '@docusaurus/plugin-content-docs';
+import {validateDocFrontMatter} from '../../src/components/DocMeta/frontMatter';
+
+// Checks every doc against the DocFrontMatter schema and fails the build with all problems, grouped by file
+export default function docFrontMatterPlugin(): Plugin {
+  return {
+    name: 'doc-front-matter',
+    allContentLoaded({allContent}) {
+      const docsContent = allContent['docusaurus-plugin-content-docs']?.default as DocsContent | undefined;
+      for (const version of docsContent?.loadedVersions ?? []) {
+        const docIds = version.docs.map((doc) => doc.id);
+        const problems = version.docs.flatMap((doc) => {
+          const errors = validateDocFrontMatter(doc.id, doc.frontMatter, docIds);
+          return errors.length > 0
+            ? [`${doc.source.replace(/^@site\//, '')}:\n${errors.map((error) => `  - ${error}`).join('\n')}`]
+            : [];
+        });
+        if (problems.length > 0) {
+          throw new Error(
+            `${problems.length} ${problems.length === 1 ? 'doc has' : 'docs have'} invalid front matter, see the doc front matter section of README.md:\n${problems.join('\n')}`,
+          );
+        }
+      }
+    },
+  };
+}
@@ -0,0 +1,48 @@
+import path from 'path';
+import {execFile} from 'child_process';
+import {promisify} from 'util';
+import logger from '@docusaurus/logger';
+
+export interface GitCommit {
+  author: string;
+  email: string;
+  // ISO 8601
+  date: string;
+}
+
+const run = promisify(execFile);
+
+let shallowCheck: Promise<void> | undefined;
+
+// A shallow clone only has the latest commits, CI has to check out with fetch-depth: 0
+function warnIfShallow(cwd: string): Promise<void> {
+  shallowCheck ??= run('git', ['rev-parse', '--is-shallow-repository'], {cwd}).then(
+    ({stdout}) => {
+      if (stdout.trim() === 'true') {
+        logger.warn('The git history is shallow, so contributors and recent changes of docs are incomplete');
+      }
+    },
+    () => {},
+  );
+  return shallowCheck;
+}
+
+// Commits that touched the file, newest first, following renames; empty outside a git checkout
+export async function gitCommits(filePath: string): Promise<GitCommit[]> {
+  const cwd = path.dirname(filePath);
+  let log: string;
+  try {
+    await warnIfShallow(cwd);
+    const {stdout} = await run('git', ['log', '--follow', '--format=%aN%x09%aE%x09%aI', '--', path.basename(filePath)], {cwd});
+    log = stdout;
+  } catch {
+    return [];
+  }
+  return log
+    .split('\n')
+    .filter(Boolean)
+    .map((line) => {
+      const [author, email, date] = line.split('\t');
+      return {author, email, date};
+    });
+}
@@ -0,0 +1,219 @@
+import fs from 'fs/promises';
+import path from 'path';
+import {spawnSync} from 'child_process';
+import {strToU8, zipSync} from 'fflate';
+import logger from '@docusaurus/logger';
+import type {LoadContext, Plugin} from '@docusaurus/types';
+import type {LoadedContent as DocsContent} from '@docusaurus/plugin-content-docs';
+import type {GoDownload, GoSnippetsData} from '../../src/components/DownloadCode/goSnippets';
+import {readFences} from '../code-fences';
+
+// Served as a static directory, so the zips work with `npm start` too, see docusaurus.config.ts
+export const GO_SNIPPETS_STATIC_DIR = '.docusaurus/go-snippets/static';
+// Complete files of a doc, one directory per package, for go vet and for trying the snippets locally
+const MODULE_DIR = '.docusaurus/go-snippets/module';
+const MODULE_NAME = 'supdino.com/snippets';
+
+export interface Options {
+  // Mirrors onBrokenLinks: 'throw' fails the build, 'warn' only reports, 'ignore' skips the checks
+  onInvalidSnippet?: 'throw' | 'warn' | 'ignore';
+}
+
+interface GoFile {
+  name: string;
+  code: string;
+  // Doc line of every line of the file, fences sharing a name are joined in order
+  lines: number[];
+}
+
+interface DocSnippets {
+  source: string;
+  files: GoFile[];
+}
+
+// Fences tagged name="…" (or name=… unquoted) become that file, the rest get one file each named after the doc
+function collectFiles(source: string, markdown: string, errors: string[]): GoFile[] {
+  const base = path.basename(source, path.extname(source)).replace(/-/g, '_');
+  const fences = readFences(markdown).filter((fence) => fence.language === 'go');
+  const unnamed = fences.filter((fence) => !/(^|\s)name=/.test(fence.meta)).length;
+  const files = new Map<string, GoFile>();
+  let index = 0;
+  for (const fence of fences) {
+    const attribute = /(?:^|\s)(name=\S*)/.exec(fence.meta)?.[1];
+    const match = /(?:^|\s)name=(?:(["'])(.*?)\1|([^\s"']+))/.exec(fence.meta);
+    const tag = match?.[2] ?? match?.[3];
+    if (attribute !== undefined && (tag === undefined || !/^[\w-]+(\.go)?$/.test(tag))) {
+      errors.push(`${source}:${fence.line}: ${tag === undefined ? attribute : `name="${tag}"`} must be a file name such as name="partition"`);
+      continue;
+    }
+    const name = tag ? `${tag.replace(/\.go$/, '')}.go` : unnamed > 1 ? `${base}_${++index}.go` : `${base}.go`;
+    const file = files.get(name) ?? {name, code: '', lines: []};
+    const codeLines = fence.code.split('\n');
+    if (file.code) {
+      file.code += '\n\n';
+      file.lines.push(file.lines[file.lines.length - 1]);
+    }
+    file.code += fence.code;
+    file.lines.push(...codeLines.map((_, i) => fence.line + 1 + i));
+    files.set(name, file);
+  }
+  return [...files.values()].map((file) => ({...file, code: `${file.code}\n`}));
+}
+
+// gofmt reads fragments (bare functions or statements) from stdin, files on disk have to be complete.
+// Returns false when the file doesn't parse.
+function checkFormat(doc: DocSnippets, file: GoFile, errors: string[]): boolean {
+  const result = spawnSync('gofmt', [], {input: file.code, encoding: 'utf8'});
+  if (result.status !== 0) {
+    for (const match of result.stderr.matchAll(/^<standard input>:(\d+):\d+: (.*)$/gm)) {
+      errors.push(`${doc.source}:${file.lines[Number(match[1]) - 1] ?? '?'}: gofmt: ${match[2]}`);
+    }
+    return false;
+  }
+  // Docs may indent with spaces, everything else has to match gofmt
+  const normalize = (code: string) => code.trimEnd().split('\n').map((line) => line.trim());
+  const actual = normalize(file.code);
+  const expected = normalize(result.stdout);
+  const line = actual.findIndex((text, i) => text !== expected[i]);
+  if (line !== -1 || actual.length !== expected.length) {
+    const at = line === -1 ? Math.min(actual.length, expected.length) : line;
+    const hint = expected[at] ? `, expected "${expected[at]}"` : '';
+    errors.push(`${doc.source}:${file.lines[Math.min(at, file.lines.length - 1)]}: not formatted with gofmt${hint}`);
+  }
+  return true;
+}
+
+function imports(code: string): string[] {
+  return [...code.matchAll(/^import\s*(?:\(([^)]*)\)|(.*))/gm)].flatMap((match) =>
+    [...(match[1] ?? match[2]).matchAll(/"([^"]+)"/g)].map((quoted) => quoted[1]),
+  );
+}
+
+function packageName(file: GoFile): string | undefined {
+  return /^package (\w+)/m.exec(file.code)?.[1];
+}
+
+// Only the standard library is available offline
+function importsStandardLibrary(file: GoFile): boolean {
+  return imports(file.code).every((name) => !name.split('/')[0].includes('.'));
+}
+
+type Packages = Map<string, {doc: DocSnippets; file: GoFile}>;
+
+// Files that don't parse were already reported by gofmt
+function vet(moduleDir: string, packages: Packages, unparsed: Set<GoFile>, errors: string[]) {
+  if (packages.size === 0) {
+    return;
+  }
+  const result = spawnSync('go', ['vet', './...'], {
+    cwd: moduleDir,
+    encoding: 'utf8',
+    env: {...process.env, GOFLAGS: '-mod=mod', GOPROXY: 'off', GOTOOLCHAIN: 'local', GOWORK: 'off'},
+  });
+  if (result.status === 0) {
+    return;
+  }
+  let matched = 0;
+  for (const match of result.stderr.matchAll(/^(?:vet: )?(?:\.\/)?([\w./-]+\.go):(\d+)(?::\d+)?: (.*)$/gm)) {
+    const snippet = packages.get(match[1]);
+    if (!snippet) {
+      continue;
+    }
+    matched++;
+    if (!unparsed.has(snippet.file)) {
+      errors.push(`${snippet.doc.source}:${snippet.file.lines[Number(match[2]) - 1] ?? '?'}: go vet: ${match[3]}`);
+    }
+  }
+  if (matched === 0) {
+    errors.push(`go vet failed:\n${result.stderr.trim()}`);
+  }
+}
+
+// Extracts the Go fences of every doc into .go files, zips them per doc and checks them with gofmt and go vet
+export default function goSnippetsPlugin(context: LoadContext, {onInvalidSnippet = 'throw'}: Options = {}): Plugin {
+  return {
+    name: 'go-snippets',
+    async allContentLoaded({allContent, actions}) {
+      const content = allContent['docusaurus-plugin-content-docs']?.default as DocsContent | undefined;
+      const version = content?.loadedVersions.find((loadedVersion) => loadedVersion.isLast);
+      if (!version) {
+        return;
+      }
+      const staticDir = path.join(context.siteDir, GO_SNIPPETS_STATIC_DIR);
+      const moduleDir = path.join(context.siteDir, MODULE_DIR);
+      await fs.rm(staticDir, {recursive: true, force: true});
+      await fs.rm(moduleDir, {recursive: true, force: true});
+
+      const errors: string[] = [];
+      const downloads: Record<string, GoDownload> = {};
+      const docs: DocSnippets[] = [];
+      // By path in the module, as go vet reports them
+      const packages: Packages = new Map();
+      for (const doc of version.docs) {
+        const source = doc.source.replace(/^@site\//, '');
+        const files = collectFiles(source, await fs.readFile(path.join(context.siteDir, source), 'utf8'), errors);
+        if (files.length === 0) {
+          continue;
+        }
+        const snippets = {source, files};
+        docs.push(snippets);
+
+        // Unzips into a folder named after the doc
+        const folder = path.basename(source, path.extname(source));
+        const zip = zipSync(Object.fromEntries(files.map((file) => [`${folder}/${file.name}`, strToU8(file.code)])));
+        const url = `/code/${doc.id}.zip`;
+        await fs.mkdir(path.dirname(path.join(staticDir, url)), {recursive: true});
+        await fs.writeFile(path.join(staticDir, url), zip);
+        downloads[doc.id] = {url, files: files.map((file) => file.name)};
+
+        // Complete files declaring the same package are built together, as they would be in one directory
+        const byPackage = new Map<string, GoFile[]>();
+        for (const file of files) {
+          const name = packageName(file);
+          if (name) {
+            byPackage.set(name, [...(byPackage.get(name) ?? []), file]);
+          }
+        }
+        for (const [name, members] of byPackage) {
+          if (!members.every(importsStandardLibrary)) {
+            continue;
+          }
+          for (const file of members) {
+            const modulePath = path.posix.join(doc.id, name, file.name);
+            await fs.mkdir(path.dirname(path.join(moduleDir, modulePath)), {recursive: true});
+            await fs.writeFile(path.join(moduleDir, modulePath), file.code);
+            packages.set(modulePath, {doc: snippets, file});
+          }
+        }
+      }
+      await fs.mkdir(moduleDir, {recursive: true});
+      await fs.writeFile(path.join(moduleDir, 'go.mod'), `module ${MODULE_NAME}\n\ngo 1.21\n`);
+
+      const data: GoSnippetsData = {downloads};
+      actions.setGlobalData(data);
+
+      if (onInvalidSnippet === 'ignore') {
+        return;
+      }
+      if (spawnSync('go', ['version']).error) {
+        logger.info('No Go toolchain found, Go snippets are not checked with gofmt and go vet');
+      } else {
+        const unparsed = new Set<GoFile>();
+        for (const doc of docs) {
+          doc.files.filter((file) => !checkFormat(doc, file, errors)).forEach((file) => unparsed.add(file));
+        }
+        vet(moduleDir, packages, unparsed, errors);
+      }
+
+      if (errors.length === 0) {
+        return;
+      }
+      errors.sort((a, b) => a.localeCompare(b, 'en', {numeric: true}));
+      const message = `Invalid Go snippets:\n${errors.map((error) => `  - ${error}`).join('\n')}`;
+      if (onInvalidSnippet === 'throw') {
+        throw new Error(message);
+      }
+      logger.warn(message);
+    },
+  };
+}
@@ -0,0 +1,120 @@
+import type {LoadContext, Plugin} from '@docusaurus/types';
+import type {LoadedContent as DocsContent} from '@docusaurus/plugin-content-docs';
+import type {
+  GraphDoc,
+  LearningPathConfig,
+  LearningPathsData,
+} from '../../src/components/LearningPaths/learningPaths';
+import {readDocMetadata} from '../../src/components/DocMeta/docMeta';
+import {docCategories} from '../doc-categories';
+
+export interface LearningPathsOptions {
+  paths: LearningPathConfig[];
+}
+
+type DocNode = Omit<GraphDoc, 'depth'>;
+
+// Longest prerequisite chain per doc; throws on a cycle, naming the docs in it
+function computeDepths(docs: Map<string, DocNode>): Map<string, number> {
+  const depths = new Map<string, number>();
+  const visiting: string[] = [];
+
+  const depthOf = (id: string): number => {
+    const known = depths.get(id);
+    if (known !== undefined) {
+      return known;
+    }
+    if (visiting.includes(id)) {
+      const cycle = [...visiting.slice(visiting.indexOf(id)), id];
+      throw new Error(`Docs have circular prerequisites: ${cycle.join(' → ')}`);
+    }
+    visiting.push(id);
+    const prerequisites = docs.get(id)?.prerequisites ?? [];
+    const depth = prerequisites.length > 0 ? Math.max(...prerequisites.map(depthOf)) + 1 : 0;
+    visiting.pop();
+    depths.set(id, depth);
+    return depth;
+  };
+
+  docs.forEach((_, id) => depthOf(id));
+  return depths;
+}
+
+function validatePaths(paths: LearningPathConfig[], docs: Map<string, DocNode>): string[] {
+  const errors: string[] = [];
+  paths.forEach((learningPath, i) => {
+    const at = `learning path "${learningPath.id}"`;
+    if (paths.findIndex((other) => other.id === learningPath.id) !== i) {
+      errors.push(`${at} is defined twice`);
+    }
+    learningPath.docs.forEach((docId, position) => {
+      const doc = docs.get(docId);
+      if (!doc) {
+        errors.push(`${at} lists "${docId}", which is not a doc id`);
+        return;
+      }
+      for (const prerequisite of doc.prerequisites) {
+        const prerequisitePosition = learningPath.docs.indexOf(prerequisite);
+        if (prerequisitePosition > position) {
+          errors.push(`${at} lists "${docId}" before its prerequisite "${prerequisite}"`);
+        }
+      }
+    });
+  });
+  return errors;
+}
+
+// Publishes the prerequisite graph of the current docs and the curated learning paths
+export default function learningPathsPlugin(context: LoadContext, options: LearningPathsOptions): Plugin {
+  return {
+    name: 'learning-paths',
+    allContentLoaded({allContent, actions}) {
+      const content = allContent['docusaurus-plugin-content-docs']?.default as DocsContent | undefined;
+      const version = content?.loadedVersions.find((loadedVersion) => loadedVersion.isLast);
+      if (!content || !version) {
+        return;
+      }
+
+      // Sidebar order first, docs outside the sidebars after them
+      const categories = docCategories(content);
+      const order = [...categories.keys()];
+      const rank = (id: string) => (order.includes(id) ? order.indexOf(id) : order.length);
+      const sorted = [...version.docs].sort((a, b) => rank(a.id) - rank(b.id));
+
+      const docIds = new Set(version.docs.map((doc) => doc.id));
+      const docs = new Map<string, DocNode>();
+      for (const doc of sorted) {
+        const {readingTime, difficulty} = readDocMetadata(doc.frontMatter.sidebar_custom_props);
+        const prerequisites = doc.frontMatter.prerequisites;
+        docs.set(doc.id, {
+          id: doc.id,
+          title: doc.title,
+          permalink: doc.permalink,
+          section: categories.get(doc.id)?.[0] ?? 'Docs',
+          difficulty,
+          readingTime,
+          // plugins/doc-front-matter reports malformed lists and unknown ids
+          prerequisites: Array.isArray(prerequisites) ? prerequisites.filter((id) => docIds.has(id)) : [],
+        });
+      }
+
+      const depths = computeDepths(docs);
+      const errors = validatePaths(options.paths, docs);
+      if (errors.length > 0) {
+        throw new Error(`Invalid learning paths in learningPaths.ts:\n${errors.map((error) => `  - ${error}`).join('\n')}`);
+      }
+
+      const data: LearningPathsData = {
+        docs: [...docs.values()].map((doc) => {
+          const depth = depths.get(doc.id);
+          if (depth === undefined) {
+            throw new Error(`No prerequisite depth was computed for ${doc.id}`);
+          }
+          return {...doc, depth};
+        }),
+        paths: options.paths,
+      };
+      actions.setGlobalData(data);
+    },
+  };
+}
@@ -0,0 +1,113 @@
+import fs from 'fs/promises';
+import path from 'path';
+import yaml from 'js-yaml';
+import type {ParseFrontMatter} from '@docusaurus/types';
+import {QUESTION_TYPES} from '../../src/components/Quiz/types';
+
+const QUIZ_SUFFIX = '.quiz.yml';
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isNonEmptyString(value: unknown): value is string {
+  return typeof value === 'string' && value.trim() !== '';
+}
+
+// Returns one message per problem so authors can fix a quiz in a single pass
+export function validateQuiz(quiz: unknown): string[] {
+  if (!Array.isArray(quiz) || quiz.length === 0) {
+    return ['quiz must be a non-empty list of questions'];
+  }
+
+  return quiz.flatMap((question, i) => {
+    const at = `question ${i + 1}`;
+    if (!isRecord(question)) {
+      return [`${at} must be an object`];
+    }
+    const errors: string[] = [];
+    if (!isNonEmptyString(question.prompt)) {
+      errors.push(`${at} needs a prompt`);
+    }
+    if (question.explanation !== undefined && typeof question.explanation !== 'string') {
+      errors.push(`${at} explanation must be text`);
+    }
+
+    switch (question.type) {
+      case 'single':
+      case 'multiple': {
+        const options = question.options;
+        if (!Array.isArray(options) || options.length < 2) {
+          errors.push(`${at} needs at least two options`);
+          break;
+        }
+        if (!options.every((option) => isRecord(option) && isNonEmptyString(option.text))) {
+          errors.push(`${at} options must each have a text`);
+          break;
+        }
+        const correct = options.filter((option) => option.correct === true).length;
+        if (question.type === 'single' && correct !== 1) {
+          errors.push(`${at} is single choice but has ${correct} correct options`);
+        } else if (correct === 0) {
+          errors.push(`${at} has no correct option`);
+        }
+        break;
+      }
+      case 'order':
+        if (!Array.isArray(question.items) || question.items.length < 2 || !question.items.every(isNonEmptyString)) {
+          errors.push(`${at} needs at least two items to order`);
+        } else if (new Set(question.items).size !== question.items.length) {
+          errors.push(`${at} has duplicate items`);
+        }
+        break;
+      case 'numeric':
+        if (typeof question.answer !== 'number' || !Number.isFinite(question.answer)) {
+          errors.push(`${at} needs a numeric answer`);
+        }
+        if (question.tolerance !== undefined && (typeof question.tolerance !== 'number' || question.tolerance < 0)) {
+          errors.push(`${at} tolerance must be a non-negative number`);
+        }
+        break;
+      default:
+        errors.push(`${at} has unknown type "${String(question.type)}", expected one of ${QUESTION_TYPES.join(', ')}`);
+    }
+    return errors;
+  });
+}
+
+async function readSiblingQuiz(filePath: string, siteDir: string): Promise<unknown> {
+  const quizPath = filePath.replace(/\.mdx?$/, QUIZ_SUFFIX);
+  try {
+    return yaml.load(await fs.readFile(quizPath, 'utf8'));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return undefined;
+    }
+    throw new Error(`Could not read ${path.relative(siteDir, quizPath)}: ${(error as Error).message}`);
+  }
+}
+
+// Loads quiz questions from a doc's front matter or from a sibling <doc>.quiz.yml and fails the build on invalid ones.
+// Paths in errors are relative to siteDir.
+export default function quizFrontMatter(siteDir: string): ParseFrontMatter {
+  return async (params) => {
+    const result = await params.defaultParseFrontMatter(params);
+    const sibling = await readSiblingQuiz(params.filePath, siteDir);
+    const relativePath = path.relative(siteDir, params.filePath);
+
+    if (sibling !== undefined) {
+      if (result.frontMatter.quiz !== undefined) {
+        throw new Error(`${relativePath} declares a quiz in its front matter and in ${path.basename(params.filePath).replace(/\.mdx?$/, QUIZ_SUFFIX)}; keep only one`);
+      }
+      result.frontMatter.quiz = sibling;
+    }
+
+    if (result.frontMatter.quiz !== undefined) {
+      const errors = validateQuiz(result.frontMatter.quiz);
+      if (errors.length > 0) {
+        throw new Error(`Invalid quiz in ${relativePath}:\n${errors.map((error) => `  - ${error}`).join('\n')}`);
+      }
+    }
+    return result;
+  };
+}
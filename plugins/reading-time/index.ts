@@ -0,0 +1,99 @@
+import path from 'path';
+import type {ParseFrontMatter} from '@docusaurus/types';
+
+// The docs plugin's default path, the only content that gets reading time and difficulty
+const DOCS_DIR = 'docs';
+
+// Prose is read at a normal pace, code and display formulas line by line
+const PROSE_WORDS_PER_MINUTE = 200;
+const CODE_LINES_PER_MINUTE = 50;
+// An estimated_time below this share of the computed reading time is almost certainly stale
+const MIN_ESTIMATE_SHARE = 0.5;
+
+const FENCE = /^\s*(`{3,}|~{3,})/;
+const MDX_STATEMENT = /^(import|export)\s/;
+
+export interface ReadingTimeEstimate {
+  minutes: number;
+  proseWords: number;
+  codeLines: number;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function countWords(line: string): number {
+  const text = line
+    // HTML and MDX component tags
+    .replace(/<\/?[A-Za-z][^>]*>/g, ' ')
+    // Keep link and image text, drop the URLs
+    .replace(/!?\[([^\]]*)\]\([^)]*\)/g, '$1')
+    // Inline math reads like a single word
+    .replace(/\$[^$]+\$/g, ' x ');
+  return text.split(/\s+/).filter((token) => /[\p{L}\p{N}]/u.test(token)).length;
+}
+
+// Expects the Markdown content without its front matter
+export function estimateReadingTime(content: string): ReadingTimeEstimate {
+  let proseWords = 0;
+  let codeLines = 0;
+  let fence: string | null = null;
+  let inMathBlock = false;
+
+  for (const line of content.split('\n')) {
+    const fenceMatch = FENCE.exec(line);
+    if (fence) {
+      if (fenceMatch && fenceMatch[1][0] === fence[0] && fenceMatch[1].length >= fence.length && line.trim() === fenceMatch[1]) {
+        fence = null;
+      } else if (line.trim()) {
+        codeLines++;
+      }
+    } else if (fenceMatch) {
+      fence = fenceMatch[1];
+    } else if (line.trim() === '$$') {
+      inMathBlock = !inMathBlock;
+    } else if (inMathBlock) {
+      codeLines++;
+    } else if (!MDX_STATEMENT.test(line)) {
+      proseWords += countWords(line);
+    }
+  }
+
+  const minutes = Math.max(1, Math.ceil(proseWords / PROSE_WORDS_PER_MINUTE + codeLines / CODE_LINES_PER_MINUTE));
+  return {minutes, proseWords, codeLines};
+}
+
+// Wraps another front matter parser and adds reading time and difficulty to sidebar_custom_props,
+// which Docusaurus passes on to sidebar items, doc cards and the doc page itself.
+// plugins/doc-front-matter validates both fields. Blog posts and pages are left alone.
+export default function withDocMetadata(parseFrontMatter: ParseFrontMatter, siteDir: string): ParseFrontMatter {
+  return async (params) => {
+    const result = await parseFrontMatter(params);
+    if (path.relative(siteDir, params.filePath).split(path.sep)[0] !== DOCS_DIR) {
+      return result;
+    }
+    const {difficulty, estimated_time: estimatedTime, sidebar_custom_props: customProps = {}} = result.frontMatter;
+
+    // Leave malformed custom props to the docs plugin's own validation
+    if (!isRecord(customProps)) {
+      return result;
+    }
+
+    // An author's estimate includes exercises and experiments, so it wins over the computed one,
+    // as long as it leaves time to at least read the doc
+    const computed = estimateReadingTime(result.content).minutes;
+    if (typeof estimatedTime === 'number' && estimatedTime < computed * MIN_ESTIMATE_SHARE) {
+      throw new Error(
+        `${path.relative(siteDir, params.filePath)}: estimated_time of ${estimatedTime} min is far below the computed reading time of ${computed} min; raise it or remove it`,
+      );
+    }
+
+    result.frontMatter.sidebar_custom_props = {
+      ...customProps,
+      readingTime: typeof estimatedTime === 'number' ? estimatedTime : computed,
+      ...(difficulty !== undefined && {difficulty}),
+    };
+    return result;
+  };
+}
@@ -0,0 +1,96 @@
+import path from 'path';
+import {Worker} from 'worker_threads';
+import logger from '@docusaurus/logger';
+import type {Code, Root} from 'mdast';
+import type {Node, Parent} from 'unist';
+import type {VFile} from 'vfile';
+
+export interface Options {
+  // Mirrors onBrokenLinks: 'throw' fails the build, 'warn' only reports
+  onInvalidDiagram?: 'throw' | 'warn' | 'ignore';
+}
+
+interface ParseResult {
+  id: number;
+  error?: string;
+}
+
+let worker: Worker | null = null;
+let nextId = 0;
+const pending = new Map<number, (error?: string) => void>();
+
+// Every diagram still waiting fails, the next one starts a fresh worker
+function failPending(crashed: Worker, reason: string) {
+  pending.forEach((resolve) => resolve(`Mermaid parser crashed: ${reason}`));
+  pending.clear();
+  if (worker === crashed) {
+    worker = null;
+  }
+}
+
+function getWorker(): Worker {
+  if (!worker) {
+    const created = new Worker(path.join(__dirname, 'worker.mjs'));
+    created.unref();
+    created.on('message', ({id, error}: ParseResult) => {
+      pending.get(id)?.(error);
+      pending.delete(id);
+      if (pending.size === 0) {
+        created.unref();
+      }
+    });
+    created.on('error', (error: Error) => failPending(created, error.message));
+    // An out-of-memory kill ends the worker without an error event
+    created.on('exit', (code) => failPending(created, `exited with code ${code}`));
+    worker = created;
+  }
+  return worker;
+}
+
+function parseDiagram(source: string): Promise<string | undefined> {
+  const id = nextId++;
+  const parser = getWorker();
+  return new Promise((resolve) => {
+    pending.set(id, resolve);
+    // Keep the process alive while a diagram is being parsed
+    parser.ref();
+    parser.postMessage({id, source});
+  });
+}
+
+function collectMermaidBlocks(node: Node, blocks: Code[]): Code[] {
+  if (node.type === 'code' && (node as Code).lang === 'mermaid') {
+    blocks.push(node as Code);
+  }
+  (node as Parent).children?.forEach((child) => collectMermaidBlocks(child, blocks));
+  return blocks;
+}
+
+export default function remarkValidateMermaid({onInvalidDiagram = 'throw'}: Options = {}) {
+  return async (root: Root, file: VFile): Promise<void> => {
+    if (onInvalidDiagram === 'ignore') {
+      return;
+    }
+
+    const blocks = collectMermaidBlocks(root, []);
+    const errors = (
+      await Promise.all(
+        blocks.map(async (block) => {
+          const error = await parseDiagram(block.value);
+          const line = block.position?.start.line ?? '?';
+          return error && `${path.relative(process.cwd(), file.path)}:${line}\n${error}`;
+        }),
+      )
+    ).filter(Boolean);
+
+    if (errors.length === 0) {
+      return;
+    }
+
+    const message = `Invalid mermaid diagram${errors.length > 1 ? 's' : ''} found:\n\n${errors.join('\n\n')}`;
+    if (onInvalidDiagram === 'throw') {
+      throw new Error(message);
+    }
+    logger.warn(message);
+  };
+}
@@ -0,0 +1,19 @@
+// Mermaid sanitizes labels with DOMPurify, which needs a DOM. The globals are
+// installed in this worker so they never leak into the build process itself.
+import {parentPort} from 'node:worker_threads';
+import {JSDOM} from 'jsdom';
+
+const {window} = new JSDOM('');
+globalThis.window = window;
+globalThis.document = window.document;
+
+const {default: mermaid} = await import('mermaid');
+
+parentPort.on('message', async ({id, source}) => {
+  try {
+    await mermaid.parse(source);
+    parentPort.postMessage({id});
+  } catch (error) {
+    parentPort.postMessage({id, error: error?.message ?? String(error)});
+  }
+});
@@ -0,0 +1,92 @@
+import path from 'path';
+import type {LoadContext, Plugin} from '@docusaurus/types';
+import type {LoadedContent as DocsContent} from '@docusaurus/plugin-content-docs';
+import type {
+  RecentDoc,
+  Section,
+  SiteOverviewData,
+} from '../../src/components/SiteOverview/siteOverview';
+import {readDocMetadata} from '../../src/components/DocMeta/docMeta';
+import {gitCommits} from '../git-history';
+
+type SidebarItem = DocsContent['loadedVersions'][number]['sidebars'][string][number];
+
+const SIDEBAR = 'mainSidebar';
+const RECENT_LIMIT = 5;
+
+// Doc ids under the items, in sidebar order
+function collectDocIds(items: SidebarItem[]): string[] {
+  return items.flatMap((item) => {
+    if (item.type === 'category') {
+      return [...(item.link?.type === 'doc' ? [item.link.id] : []), ...collectDocIds(item.items)];
+    }
+    return item.type === 'doc' || item.type === 'ref' ? [item.id] : [];
+  });
+}
+
+// Publishes the homepage's sections, stats and recently changed docs, all derived from the main sidebar
+export default function siteOverviewPlugin(context: LoadContext): Plugin {
+  return {
+    name: 'site-overview',
+    async allContentLoaded({allContent, actions}) {
+      const content = allContent['docusaurus-plugin-content-docs']?.default as DocsContent | undefined;
+      const version = content?.loadedVersions.find((loadedVersion) => loadedVersion.isLast);
+      if (!version) {
+        return;
+      }
+      const docs = new Map(version.docs.map((doc) => [doc.id, doc]));
+      const readingTime = (ids: string[]) =>
+        ids.reduce((sum, id) => sum + (readDocMetadata(docs.get(id)?.frontMatter.sidebar_custom_props).readingTime ?? 0), 0);
+
+      const sections: Section[] = [];
+      for (const item of version.sidebars[SIDEBAR] ?? []) {
+        if (item.type !== 'category') {
+          continue;
+        }
+        const docIds = collectDocIds([item]).filter((id) => docs.has(id));
+        if (docIds.length === 0) {
+          continue;
+        }
+        const icon = item.customProps?.icon;
+        sections.push({
+          label: item.label,
+          icon: typeof icon === 'string' ? icon : undefined,
+          permalink: docs.get(docIds[0])!.permalink,
+          docIds,
+          readingTime: readingTime(docIds),
+          topics: item.items
+            .filter((child) => child.type === 'category')
+            .map((child) => ({label: child.label, docCount: collectDocIds([child]).filter((id) => docs.has(id)).length}))
+            .filter((topic) => topic.docCount > 0),
+        });
+      }
+
+      const sectionOf = new Map(sections.flatMap((section) => section.docIds.map((id) => [id, section.label])));
+      const recent: RecentDoc[] = [];
+      for (const [id, section] of sectionOf) {
+        const doc = docs.get(id)!;
+        const commits = await gitCommits(path.join(context.siteDir, doc.source.replace(/^@site\//, '')));
+        if (commits.length > 0) {
+          recent.push({
+            id,
+            title: doc.title,
+            permalink: doc.permalink,
+            section,
+            change: commits.length === 1 ? 'added' : 'updated',
+            date: commits[0].date,
+          });
+        }
+      }
+
+      const data: SiteOverviewData = {
+        sections,
+        quizQuestions: [...sectionOf.keys()].reduce((sum, id) => {
+          const quiz = docs.get(id)!.frontMatter.quiz;
+          return sum + (Array.isArray(quiz) ? quiz.length : 0);
+        }, 0),
+        recent: recent.sort((a, b) => Date.parse(b.date) - Date.parse(a.date)).slice(0, RECENT_LIMIT),
+      };
+      actions.setGlobalData(data);
+    },
+  };
+}
@@ -0,0 +1,160 @@
+import fs from 'fs/promises';
+import path from 'path';
+import satori from 'satori';
+import {Resvg} from '@resvg/resvg-js';
+import type {LoadContext, ParseFrontMatter, Plugin} from '@docusaurus/types';
+import type {LoadedContent as DocsContent} from '@docusaurus/plugin-content-docs';
+import type {BlogContent} from '@docusaurus/plugin-content-blog';
+import {formatReadingTime, readDocMetadata} from '../../src/components/DocMeta/docMeta';
+import {docCategories} from '../doc-categories';
+
+const CARD_DIR = 'img/social-cards';
+// Fallback for every page without a card of its own, set as themeConfig.image
+export const SITE_CARD = `${CARD_DIR}/site.png`;
+// Only docs and blog posts get a card, pages keep the site card
+const CARD_SOURCES = ['docs', 'blog'];
+
+const WIDTH = 1200;
+const HEIGHT = 630;
+
+interface SocialCard {
+  title: string;
+  category?: string;
+  readingTime?: number;
+}
+
+// Cards mirror the source tree, so docs/algorithms/intro.md becomes img/social-cards/docs/algorithms/intro.png
+function cardPath(source: string): string {
+  const {dir, name} = path.parse(source);
+  return path.posix.join(CARD_DIR, dir.split(path.sep).join('/'), `${name}.png`);
+}
+
+// Wraps another front matter parser and points the image of docs and blog posts without one at their card
+export function withSocialCard(parseFrontMatter: ParseFrontMatter, siteDir: string): ParseFrontMatter {
+  return async (params) => {
+    const result = await parseFrontMatter(params);
+    const source = path.relative(siteDir, params.filePath);
+    if (result.frontMatter.image === undefined && CARD_SOURCES.includes(source.split(path.sep)[0])) {
+      result.frontMatter.image = `/${cardPath(source)}`;
+    }
+    return result;
+  };
+}
+
+type Node = {type: string; props: {style?: Record<string, unknown>; children?: unknown; [prop: string]: unknown}};
+
+function node(type: string, style: Record<string, unknown>, children?: unknown, props: Record<string, unknown> = {}): Node {
+  return {type, props: {...props, style, children}};
+}
+
+function cardMarkup(card: SocialCard, siteTitle: string, host: string, logo: string): Node {
+  const isLong = card.title.length > 60;
+  return node(
+    'div',
+    {
+      width: WIDTH,
+      height: HEIGHT,
+      display: 'flex',
+      flexDirection: 'column',
+      justifyContent: 'space-between',
+      padding: 72,
+      backgroundImage: 'linear-gradient(135deg, #667eea 0%, #764ba2 100%)',
+      color: 'white',
+      fontFamily: 'Inter',
+    },
+    [
+      node('div', {display: 'flex', alignItems: 'center', gap: 24}, [
+        node('div', {display: 'flex', padding: 12, borderRadius: 20, background: 'white'}, [
+          node('img', {width: 64, height: 64}, undefined, {src: logo, width: 64, height: 64}),
+        ]),
+        node('div', {fontSize: 40, fontWeight: 700}, siteTitle),
+      ]),
+      node('div', {display: 'flex', flexDirection: 'column', gap: 20}, [
+        card.category && node('div', {fontSize: 28, opacity: 0.8, textTransform: 'uppercase', letterSpacing: 2}, card.category),
+        node(
+          'div',
+          {
+            display: 'block',
+            fontSize: isLong ? 52 : 68,
+            fontWeight: 700,
+            lineHeight: 1.15,
+            lineClamp: isLong ? 4 : 3,
+          },
+          card.title,
+        ),
+      ].filter(Boolean)),
+      node('div', {display: 'flex', justifyContent: 'space-between', fontSize: 28, opacity: 0.85}, [
+        node('div', {}, card.readingTime !== undefined ? formatReadingTime(card.readingTime) : ''),
+        node('div', {}, host),
+      ]),
+    ],
+  );
+}
+
+function collectCards(plugins: {name: string; content: unknown}[]): Map<string, SocialCard> {
+  const cards = new Map<string, SocialCard>();
+  const addCard = (image: unknown, source: string, card: SocialCard) => {
+    const file = cardPath(source.replace(/^@site\//, ''));
+    // Front matter that names its own image opts out
+    if (image === `/${file}`) {
+      cards.set(file, card);
+    }
+  };
+
+  for (const plugin of plugins) {
+    if (plugin.name === 'docusaurus-plugin-content-docs') {
+      const content = plugin.content as DocsContent;
+      const categories = docCategories(content);
+      for (const doc of content.loadedVersions.flatMap((version) => version.docs)) {
+        addCard(doc.frontMatter.image, doc.source, {
+          title: doc.title,
+          // e.g. "Algorithms / Sorting Algorithms"
+          category: categories.get(doc.id)?.join(' / ') || undefined,
+          readingTime: readDocMetadata(doc.frontMatter.sidebar_custom_props).readingTime,
+        });
+      }
+    } else if (plugin.name === 'docusaurus-plugin-content-blog') {
+      for (const {metadata} of (plugin.content as BlogContent).blogPosts) {
+        addCard(metadata.frontMatter.image, metadata.source, {
+          title: metadata.title,
+          category: 'Blog',
+          readingTime: metadata.readingTime !== undefined ? Math.ceil(metadata.readingTime) : undefined,
+        });
+      }
+    }
+  }
+  return cards;
+}
+
+// Renders a PNG card for every doc and blog post after the build, offline from the bundled Inter font
+export default function socialCardsPlugin(context: LoadContext): Plugin {
+  return {
+    name: 'social-cards',
+    async postBuild({outDir, plugins}) {
+      const {siteConfig, siteDir} = context;
+      const fontFile = (weight: number) =>
+        fs.readFile(require.resolve(`@fontsource/inter/files/inter-latin-${weight}-normal.woff`));
+      const fonts = [
+        {name: 'Inter', data: await fontFile(400), weight: 400 as const, style: 'normal' as const},
+        {name: 'Inter', data: await fontFile(700), weight: 700 as const, style: 'normal' as const},
+      ];
+      const logoSvg = await fs.readFile(path.join(siteDir, 'static/img/logo.svg'));
+      const logo = `data:image/svg+xml;base64,${logoSvg.toString('base64')}`;
+      const host = new URL(siteConfig.url).host;
+
+      const cards = collectCards(plugins);
+      cards.set(SITE_CARD, {title: siteConfig.tagline});
+
+      for (const [file, card] of cards) {
+        const svg = await satori(cardMarkup(card, siteConfig.title, host, logo) as Parameters<typeof satori>[0], {
+          width: WIDTH,
+          height: HEIGHT,
+          fonts,
+        });
+        const png = new Resvg(svg, {fitTo: {mode: 'width', value: WIDTH}}).render().asPng();
+        await fs.mkdir(path.dirname(path.join(outDir, file)), {recursive: true});
+        await fs.writeFile(path.join(outDir, file), png);
+      }
+    },
+  };
+}
@@ -0,0 +1,35 @@
+import type {Plugin} from '@docusaurus/types';
+import {PREFERENCE_TARGETS, STORAGE_KEY} from '../../src/components/ReaderPreferences/preferences';
+
+// Same mapping as applyPreferences, inlined so it runs before the first paint
+function preferencesScript(): string {
+  return `(function () {
+  try {
+    var stored = JSON.parse(localStorage.getItem(${JSON.stringify(STORAGE_KEY)}));
+    if (!stored) return;
+    var targets = ${JSON.stringify(PREFERENCE_TARGETS)};
+    var root = document.documentElement;
+    Object.keys(targets).forEach(function (key) {
+      var value = stored[key];
+      var target = targets[key];
+      if (typeof value !== 'number' && typeof value !== 'string') return;
+      if (target.property) {
+        root.style.setProperty(target.property, value + (target.unit || ''));
+      } else {
+        root.setAttribute(target.attribute, String(value));
+      }
+    });
+  } catch (e) {}
+})();`;
+}
+
+export default function typographyPreferencesPlugin(): Plugin {
+  return {
+    name: 'typography-preferences',
+    injectHtmlTags() {
+      return {
+        headTags: [{tagName: 'script', innerHTML: preferencesScript()}],
+      };
+    },
+  };
+}
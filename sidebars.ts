@@ -18,11 +18,18 @@ const sidebars: SidebarsConfig = {
       type: 'category',
       label: 'Algorithms',
       collapsed: true,
+      // Shown on the homepage card
+      customProps: {icon: '🧠'},
       items: [
         'algorithms/intro',
+        'algorithms/compare',
         {
           type: 'category',
           label: 'Sorting Algorithms',
+          link: {
+            type: 'generated-index',
+            description: 'Comparison sorts from the simple quadratic ones to O(n log n) divide and conquer.',
+          },
           items: [
             'algorithms/sorting/bubble-sort',
             'algorithms/sorting/selection-sort',
@@ -35,6 +42,10 @@ const sidebars: SidebarsConfig = {
         {
           type: 'category',
           label: 'Tree Algorithms',
+          link: {
+            type: 'generated-index',
+            description: 'Spanning trees and other algorithms on trees and graphs.',
+          },
           items: [
             'algorithms/tree/mst',
           ],
@@ -47,11 +58,16 @@ const sidebars: SidebarsConfig = {
       type: 'category',
       label: 'Mathematics',
       collapsed: true,
+      customProps: {icon: '📐'},
       items: [
         'mathematics/intro',
         {
           type: 'category',
           label: 'Linear Algebra',
+          link: {
+            type: 'generated-index',
+            description: 'Vectors, matrices and the operations behind graphics and machine learning.',
+          },
           items: [
             'mathematics/linear-algebra/vectors',
             // More linear algebra topics will be added here
@@ -66,11 +82,16 @@ const sidebars: SidebarsConfig = {
       type: 'category',
       label: 'Distributed Systems',
       collapsed: true,
+      customProps: {icon: '🌐'},
       items: [
         'distributed-systems/intro',
         {
           type: 'category',
           label: 'Replication',
+          link: {
+            type: 'generated-index',
+            description: 'Logs and watermarks that keep replicated data durable and consistent.',
+          },
           items: [
             'distributed-systems/replication/wal',
             'distributed-systems/replication/segmented-log',
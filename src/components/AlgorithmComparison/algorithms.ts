@@ -0,0 +1,48 @@
+import { usePluginData } from '@docusaurus/useGlobalData';
+import type { Complexity } from '../DocMeta/frontMatter';
+
+// An algorithm doc's structured front matter, see DocFrontMatter
+export interface AlgorithmSummary {
+  id: string;
+  title: string;
+  permalink: string;
+  // Innermost sidebar category, e.g. "Sorting Algorithms"
+  category: string;
+  complexity: Complexity;
+  stable?: boolean;
+  inPlace?: boolean;
+}
+
+export interface AlgorithmComparisonData {
+  // In sidebar order
+  algorithms: AlgorithmSummary[];
+}
+
+// Collected at build time by plugins/algorithm-comparison
+export function useAlgorithmComparisonData(): AlgorithmComparisonData {
+  return usePluginData('algorithm-comparison') as AlgorithmComparisonData;
+}
+
+// Variable sizes used to rank bounds; graphs are assumed sparse
+const SIZES: Record<string, number> = { n: 1024, V: 1024, E: 4096 };
+
+// Approximate cost of a Big-O bound such as "O(n log n)" or "O(V + E)", NaN when it can't be read
+export function growth(bigO: string): number {
+  const expression = bigO.replace(/^O\((.*)\)$/, '$1').replace(/²/g, '^2').replace(/³/g, '^3');
+  const value = (token: string) => (/^\d+$/.test(token) ? Number(token) : (SIZES[token] ?? NaN));
+  return expression.split('+').reduce((sum, term) => {
+    const tokens = term.trim().split(/\s+/);
+    let product = 1;
+    for (let i = 0; i < tokens.length; i++) {
+      const power = /^(\w+)\^(\w+)$/.exec(tokens[i]);
+      if (tokens[i] === 'log') {
+        product *= Math.log2(value(tokens[++i]));
+      } else if (power) {
+        product *= value(power[1]) ** value(power[2]);
+      } else {
+        product *= value(tokens[i]);
+      }
+    }
+    return sum + product;
+  }, 0);
+}
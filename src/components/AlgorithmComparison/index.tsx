@@ -0,0 +1,154 @@
+import React, { useState } from 'react';
+import Link from '@docusaurus/Link';
+import type { Complexity } from '../DocMeta/frontMatter';
+import { growth, useAlgorithmComparisonData, type AlgorithmSummary } from './algorithms';
+import styles from './AlgorithmComparison.module.css';
+
+type SortKey = 'title' | 'best' | 'average' | 'worst' | 'space';
+
+const COLUMNS: { key: SortKey; label: string }[] = [
+  { key: 'title', label: 'Algorithm' },
+  { key: 'best', label: 'Best' },
+  { key: 'average', label: 'Average' },
+  { key: 'worst', label: 'Worst' },
+  { key: 'space', label: 'Space' },
+];
+
+// Space is ranked by its worst case when it differs per case
+function bound(algorithm: AlgorithmSummary, key: Exclude<SortKey, 'title'>): string {
+  const { time, space } = algorithm.complexity;
+  if (key !== 'space') {
+    return time[key];
+  }
+  return typeof space === 'string' ? space : space.worst;
+}
+
+function formatSpace(space: Complexity['space']): string {
+  if (typeof space === 'string') {
+    return space;
+  }
+  return space.best === space.worst ? space.best : `${space.best} to ${space.worst}`;
+}
+
+function Flag({ value }: { value?: boolean }) {
+  if (value === undefined) {
+    return <span className={styles.na}>–</span>;
+  }
+  return value ? <span className={styles.yes}>Yes</span> : <span className={styles.no}>No</span>;
+}
+
+interface AlgorithmComparisonProps {
+  className?: string;
+}
+
+// Sortable, filterable table of every algorithm doc's complexity front matter
+const AlgorithmComparison: React.FC<AlgorithmComparisonProps> = ({ className }) => {
+  const { algorithms } = useAlgorithmComparisonData();
+  const [sortKey, setSortKey] = useState<SortKey>('title');
+  const [descending, setDescending] = useState(false);
+  const [category, setCategory] = useState('all');
+  const [stableOnly, setStableOnly] = useState(false);
+  const [inPlaceOnly, setInPlaceOnly] = useState(false);
+
+  const categories = [...new Set(algorithms.map((algorithm) => algorithm.category))];
+  const rows = algorithms
+    .filter(
+      (algorithm) =>
+        (category === 'all' || algorithm.category === category) &&
+        (!stableOnly || algorithm.stable === true) &&
+        (!inPlaceOnly || algorithm.inPlace === true),
+    )
+    .sort((a, b) => {
+      // Bounds that can't be read rank above every other
+      const order =
+        sortKey === 'title'
+          ? a.title.localeCompare(b.title)
+          : (growth(bound(a, sortKey)) || Infinity) - (growth(bound(b, sortKey)) || Infinity) || 0;
+      return (descending ? -order : order) || a.title.localeCompare(b.title);
+    });
+
+  const handleSort = (key: SortKey) => {
+    setDescending(key === sortKey && !descending);
+    setSortKey(key);
+  };
+
+  return (
+    <div className={`${styles.comparison} ${className || ''}`}>
+      <div className={styles.filters}>
+        {categories.length > 1 && (
+          <label className={styles.filter}>
+            Category
+            <select value={category} onChange={(event) => setCategory(event.target.value)}>
+              <option value="all">All</option>
+              {categories.map((label) => (
+                <option key={label} value={label}>
+                  {label}
+                </option>
+              ))}
+            </select>
+          </label>
+        )}
+        <label className={styles.filter}>
+          <input type="checkbox" checked={stableOnly} onChange={(event) => setStableOnly(event.target.checked)} />
+          Stable only
+        </label>
+        <label className={styles.filter}>
+          <input type="checkbox" checked={inPlaceOnly} onChange={(event) => setInPlaceOnly(event.target.checked)} />
+          In-place only
+        </label>
+      </div>
+
+      <div className={styles.tableWrapper}>
+        <table className={styles.table}>
+          <thead>
+            <tr>
+              {COLUMNS.map((column) => (
+                <th
+                  key={column.key}
+                  aria-sort={column.key === sortKey ? (descending ? 'descending' : 'ascending') : undefined}>
+                  <button className={styles.sortButton} onClick={() => handleSort(column.key)}>
+                    {column.label}
+                    <span className={styles.sortIcon} aria-hidden="true">
+                      {column.key === sortKey ? (descending ? '▼' : '▲') : '↕'}
+                    </span>
+                  </button>
+                </th>
+              ))}
+              <th>Stable</th>
+              <th>In-place</th>
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map((algorithm) => (
+              <tr key={algorithm.id}>
+                <td>
+                  <Link to={algorithm.permalink}>{algorithm.title}</Link>
+                  <div className={styles.category}>{algorithm.category}</div>
+                </td>
+                <td>{algorithm.complexity.time.best}</td>
+                <td>{algorithm.complexity.time.average}</td>
+                <td>{algorithm.complexity.time.worst}</td>
+                <td>{formatSpace(algorithm.complexity.space)}</td>
+                <td>
+                  <Flag value={algorithm.stable} />
+                </td>
+                <td>
+                  <Flag value={algorithm.inPlace} />
+                </td>
+              </tr>
+            ))}
+            {rows.length === 0 && (
+              <tr>
+                <td colSpan={COLUMNS.length + 2} className={styles.empty}>
+                  No algorithms match these filters.
+                </td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default AlgorithmComparison;
@@ -0,0 +1,69 @@
+import type { SortingAlgorithm } from '../SortingVisualizer/algorithms';
+
+export type Distribution = 'random' | 'sorted' | 'reversed' | 'nearly-sorted' | 'duplicates';
+
+export const DISTRIBUTIONS: { value: Distribution; label: string }[] = [
+  { value: 'random', label: 'Random' },
+  { value: 'sorted', label: 'Sorted' },
+  { value: 'reversed', label: 'Reversed' },
+  { value: 'nearly-sorted', label: 'Nearly sorted' },
+  { value: 'duplicates', label: 'Many duplicates' },
+];
+
+export interface BenchmarkRequest {
+  id: number;
+  algorithms: SortingAlgorithm[];
+  size: number;
+  distribution: Distribution;
+  // Each algorithm is timed this many times on the same input; the median is reported
+  runs: number;
+}
+
+export interface BenchmarkResult {
+  algorithm: SortingAlgorithm;
+  milliseconds: number;
+  comparisons: number;
+  moves: number;
+}
+
+// Posted by the worker once per finished algorithm, then once when the whole request is done
+export type BenchmarkMessage =
+  | { type: 'result'; id: number; result: BenchmarkResult }
+  | { type: 'done'; id: number }
+  | { type: 'error'; id: number; message: string };
+
+// Small seeded PRNG (mulberry32) so every algorithm and every rerun sees the same input
+function random(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+export function generateInput(distribution: Distribution, size: number, seed = 1): number[] {
+  const next = random(seed);
+  const ascending = Array.from({ length: size }, (_, i) => i);
+  switch (distribution) {
+    case 'sorted':
+      return ascending;
+    case 'reversed':
+      return ascending.reverse();
+    case 'nearly-sorted': {
+      // About 5% of the elements swapped with a random partner
+      for (let swaps = Math.max(1, Math.floor(size / 20)); swaps > 0; swaps--) {
+        const i = Math.floor(next() * size);
+        const j = Math.floor(next() * size);
+        [ascending[i], ascending[j]] = [ascending[j], ascending[i]];
+      }
+      return ascending;
+    }
+    case 'duplicates':
+      return ascending.map(() => Math.floor(next() * 10));
+    default:
+      return ascending.map(() => Math.floor(next() * size));
+  }
+}
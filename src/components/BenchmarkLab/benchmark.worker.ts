@@ -0,0 +1,37 @@
+import { generateInput, type BenchmarkMessage, type BenchmarkRequest } from './benchmark';
+import { sorts, type Counters } from './sorts';
+
+function post(message: BenchmarkMessage) {
+  self.postMessage(message);
+}
+
+function isSorted(array: number[]): boolean {
+  return array.every((value, i) => i === 0 || array[i - 1] <= value);
+}
+
+// Runs off the main thread so long quadratic sorts never freeze the page
+self.addEventListener('message', (event: MessageEvent<BenchmarkRequest>) => {
+  const { id, algorithms, size, distribution, runs } = event.data;
+  try {
+    const input = generateInput(distribution, size);
+    for (const algorithm of algorithms) {
+      const times: number[] = [];
+      let counters: Counters = { comparisons: 0, moves: 0 };
+      for (let run = 0; run < runs; run++) {
+        const array = [...input];
+        counters = { comparisons: 0, moves: 0 };
+        const start = performance.now();
+        sorts[algorithm](array, counters);
+        times.push(performance.now() - start);
+        if (!isSorted(array)) {
+          throw new Error(`${algorithm} sort left the array unsorted`);
+        }
+      }
+      times.sort((a, b) => a - b);
+      post({ type: 'result', id, result: { algorithm, milliseconds: times[Math.floor(times.length / 2)], ...counters } });
+    }
+    post({ type: 'done', id });
+  } catch (error) {
+    post({ type: 'error', id, message: error instanceof Error ? error.message : String(error) });
+  }
+});
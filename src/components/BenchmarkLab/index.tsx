@@ -0,0 +1,270 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { algorithms as definitions, type SortingAlgorithm } from '../SortingVisualizer/algorithms';
+import { DISTRIBUTIONS, type BenchmarkMessage, type BenchmarkResult, type Distribution } from './benchmark';
+import styles from './BenchmarkLab.module.css';
+
+const ALL_ALGORITHMS = Object.keys(definitions) as SortingAlgorithm[];
+const QUADRATIC: SortingAlgorithm[] = ['bubble', 'selection', 'insertion'];
+// Quick sort pivots on the last element, so it turns quadratic on ordered input
+const QUADRATIC_WHEN_ORDERED: SortingAlgorithm[] = ['quick'];
+const ORDERED: Distribution[] = ['sorted', 'reversed', 'nearly-sorted'];
+const SIZES = [100, 1000, 5000, 10000, 50000];
+const RUNS = [1, 3, 5];
+// Above this size the quadratic sorts take seconds per run
+const SLOW_SIZE = 10000;
+
+type Metric = 'milliseconds' | 'comparisons' | 'moves';
+
+const METRICS: { value: Metric; label: string }[] = [
+  { value: 'milliseconds', label: 'Wall time' },
+  { value: 'comparisons', label: 'Comparisons' },
+  { value: 'moves', label: 'Swaps and writes' },
+];
+
+interface Run {
+  algorithms: SortingAlgorithm[];
+  size: number;
+  distribution: Distribution;
+  runs: number;
+}
+
+function formatValue(metric: Metric, value: number): string {
+  if (metric === 'milliseconds') {
+    return `${value.toFixed(value < 10 ? 2 : 1)} ms`;
+  }
+  return value.toLocaleString('en-US');
+}
+
+function toCsv(run: Run, results: BenchmarkResult[]): string {
+  const rows = results.map((result) =>
+    [
+      definitions[result.algorithm].name,
+      run.distribution,
+      run.size,
+      run.runs,
+      result.milliseconds.toFixed(3),
+      result.comparisons,
+      result.moves,
+    ].join(','),
+  );
+  return ['algorithm,distribution,size,runs,median_ms,comparisons,moves', ...rows].join('\n') + '\n';
+}
+
+interface BenchmarkLabProps {
+  algorithms?: SortingAlgorithm[];
+  defaultSize?: number;
+  defaultDistribution?: Distribution;
+  className?: string;
+}
+
+// Times the sorting algorithms on generated input in a Web Worker and charts the results
+const BenchmarkLab: React.FC<BenchmarkLabProps> = ({
+  algorithms = ALL_ALGORITHMS,
+  defaultSize = 1000,
+  defaultDistribution = 'random',
+  className,
+}) => {
+  const [selected, setSelected] = useState<SortingAlgorithm[]>(algorithms);
+  const [size, setSize] = useState(defaultSize);
+  const [distribution, setDistribution] = useState<Distribution>(defaultDistribution);
+  const [runs, setRuns] = useState(3);
+  const [metric, setMetric] = useState<Metric>('milliseconds');
+  const [run, setRun] = useState<Run | null>(null);
+  const [results, setResults] = useState<BenchmarkResult[]>([]);
+  const [isRunning, setIsRunning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const workerRef = useRef<Worker | null>(null);
+  const requestId = useRef(0);
+
+  // The worker is a bundled chunk, created up front so a later run doesn't need the network
+  const startWorker = useCallback(() => {
+    const worker = new Worker(new URL('./benchmark.worker.ts', import.meta.url));
+    worker.addEventListener('message', (event: MessageEvent<BenchmarkMessage>) => {
+      const message = event.data;
+      if (message.id !== requestId.current) {
+        return;
+      }
+      if (message.type === 'result') {
+        setResults((current) => [...current, message.result]);
+      } else {
+        setIsRunning(false);
+        setError(message.type === 'error' ? message.message : null);
+      }
+    });
+    // The chunk failed to load or the worker threw outside a run, so no message will follow
+    const handleFailure = () => {
+      setIsRunning(false);
+      setError('The benchmark worker stopped unexpectedly. Reload the page to try again.');
+    };
+    worker.addEventListener('error', handleFailure);
+    worker.addEventListener('messageerror', handleFailure);
+    workerRef.current = worker;
+  }, []);
+
+  useEffect(() => {
+    startWorker();
+    return () => workerRef.current?.terminate();
+  }, [startWorker]);
+
+  const handleRun = () => {
+    const next: Run = { algorithms: algorithms.filter((algorithm) => selected.includes(algorithm)), size, distribution, runs };
+    requestId.current++;
+    setRun(next);
+    setResults([]);
+    setError(null);
+    setIsRunning(true);
+    workerRef.current?.postMessage({ id: requestId.current, ...next });
+  };
+
+  // A sort can't be interrupted inside the worker, so the worker is replaced
+  const handleCancel = () => {
+    workerRef.current?.terminate();
+    requestId.current++;
+    setIsRunning(false);
+    startWorker();
+  };
+
+  const handleExport = () => {
+    if (!run) {
+      return;
+    }
+    const url = URL.createObjectURL(new Blob([toCsv(run, results)], { type: 'text/csv' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `supdino-benchmark-${run.distribution}-${run.size}.csv`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const toggleAlgorithm = (algorithm: SortingAlgorithm) => {
+    setSelected((current) =>
+      current.includes(algorithm) ? current.filter((item) => item !== algorithm) : [...current, algorithm],
+    );
+  };
+
+  const maxValue = Math.max(...results.map((result) => result[metric]), 1);
+  const isSlow =
+    size >= SLOW_SIZE &&
+    selected.some(
+      (algorithm) =>
+        QUADRATIC.includes(algorithm) || (QUADRATIC_WHEN_ORDERED.includes(algorithm) && ORDERED.includes(distribution)),
+    );
+
+  return (
+    <div className={`${styles.lab} ${className || ''}`}>
+      <div className={styles.controls}>
+        <label className={styles.control}>
+          Size
+          <select value={size} onChange={(event) => setSize(Number(event.target.value))} disabled={isRunning}>
+            {SIZES.map((option) => (
+              <option key={option} value={option}>
+                {option.toLocaleString('en-US')}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className={styles.control}>
+          Input
+          <select
+            value={distribution}
+            onChange={(event) => setDistribution(event.target.value as Distribution)}
+            disabled={isRunning}>
+            {DISTRIBUTIONS.map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className={styles.control}>
+          Runs
+          <select value={runs} onChange={(event) => setRuns(Number(event.target.value))} disabled={isRunning}>
+            {RUNS.map((option) => (
+              <option key={option} value={option}>
+                {option}
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      <fieldset className={styles.algorithms} disabled={isRunning}>
+        <legend className={styles.legend}>Algorithms</legend>
+        {algorithms.map((algorithm) => (
+          <label key={algorithm} className={styles.algorithm}>
+            <input type="checkbox" checked={selected.includes(algorithm)} onChange={() => toggleAlgorithm(algorithm)} />
+            {definitions[algorithm].name}
+          </label>
+        ))}
+      </fieldset>
+
+      {isSlow && (
+        <p className={styles.note}>
+          Quadratic sorts, and quick sort on ordered input, can take several seconds per run at this size. The page
+          stays responsive meanwhile.
+        </p>
+      )}
+
+      <div className={styles.actions}>
+        {isRunning ? (
+          <button className="button button--secondary button--sm" onClick={handleCancel}>
+            Cancel
+          </button>
+        ) : (
+          <button className="button button--primary button--sm" onClick={handleRun} disabled={selected.length === 0}>
+            Run benchmark
+          </button>
+        )}
+        <button
+          className="button button--outline button--secondary button--sm"
+          onClick={handleExport}
+          disabled={isRunning || results.length === 0}>
+          Export CSV
+        </button>
+      </div>
+
+      {error && <p className={styles.error}>{error}</p>}
+
+      {run && (
+        <div className={styles.results}>
+          <div className={styles.metrics} role="tablist">
+            {METRICS.map((option) => (
+              <button
+                key={option.value}
+                role="tab"
+                aria-selected={metric === option.value}
+                className={`${styles.metric} ${metric === option.value ? styles.metricActive : ''}`}
+                onClick={() => setMetric(option.value)}>
+                {option.label}
+              </button>
+            ))}
+          </div>
+          <ul className={styles.chart} aria-live="polite">
+            {run.algorithms.map((algorithm, i) => {
+              const result = results.find((item) => item.algorithm === algorithm);
+              // The worker reports results in order, so the first missing one is being sorted
+              const pending = i === results.length ? 'Running…' : 'Queued';
+              return (
+                <li key={algorithm} className={styles.row}>
+                  <span className={styles.name}>{definitions[algorithm].name}</span>
+                  <span className={styles.track}>
+                    {result && <span className={styles.bar} style={{ width: `${(result[metric] / maxValue) * 100}%` }} />}
+                  </span>
+                  <span className={styles.value}>
+                    {result ? formatValue(metric, result[metric]) : isRunning ? pending : '–'}
+                  </span>
+                </li>
+              );
+            })}
+          </ul>
+          <p className={styles.caption}>
+            {run.size.toLocaleString('en-US')} elements, {DISTRIBUTIONS.find((option) => option.value === run.distribution)?.label.toLowerCase()} input
+            {run.runs > 1 && `, median of ${run.runs} runs`}. Times depend on your device; the counts don't.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default BenchmarkLab;
@@ -0,0 +1,173 @@
+import type { SortingAlgorithm } from '../SortingVisualizer/algorithms';
+
+// What the benchmark counts besides time; moves are swaps, shifts or writes depending on the algorithm
+export interface Counters {
+  comparisons: number;
+  moves: number;
+}
+
+// Ports of the Go implementations in docs/algorithms/sorting, sorting in place.
+// Quick sort and heapify use loops instead of recursion so large inputs can't overflow the stack.
+
+function bubbleSort(a: number[], c: Counters): void {
+  const n = a.length;
+  for (let i = 0; i < n - 1; i++) {
+    let swapped = false;
+    for (let j = 0; j < n - i - 1; j++) {
+      c.comparisons++;
+      if (a[j] > a[j + 1]) {
+        [a[j], a[j + 1]] = [a[j + 1], a[j]];
+        c.moves++;
+        swapped = true;
+      }
+    }
+    if (!swapped) {
+      return;
+    }
+  }
+}
+
+function selectionSort(a: number[], c: Counters): void {
+  const n = a.length;
+  for (let i = 0; i < n - 1; i++) {
+    let min = i;
+    for (let j = i + 1; j < n; j++) {
+      c.comparisons++;
+      if (a[j] < a[min]) {
+        min = j;
+      }
+    }
+    if (min !== i) {
+      [a[i], a[min]] = [a[min], a[i]];
+      c.moves++;
+    }
+  }
+}
+
+function insertionSort(a: number[], c: Counters): void {
+  for (let i = 1; i < a.length; i++) {
+    const key = a[i];
+    let j = i - 1;
+    while (j >= 0) {
+      c.comparisons++;
+      if (a[j] <= key) {
+        break;
+      }
+      a[j + 1] = a[j];
+      c.moves++;
+      j--;
+    }
+    a[j + 1] = key;
+    c.moves++;
+  }
+}
+
+function mergeSort(a: number[], c: Counters): void {
+  const buffer = new Array<number>(a.length);
+  // Recursion depth is only log n here
+  const sort = (lo: number, hi: number): void => {
+    if (hi - lo < 2) {
+      return;
+    }
+    const mid = Math.floor((lo + hi) / 2);
+    sort(lo, mid);
+    sort(mid, hi);
+    for (let k = lo; k < hi; k++) {
+      buffer[k] = a[k];
+    }
+    let i = lo;
+    let j = mid;
+    let k = lo;
+    while (i < mid && j < hi) {
+      c.comparisons++;
+      a[k++] = buffer[i] <= buffer[j] ? buffer[i++] : buffer[j++];
+      c.moves++;
+    }
+    while (i < mid) {
+      a[k++] = buffer[i++];
+      c.moves++;
+    }
+    while (j < hi) {
+      a[k++] = buffer[j++];
+      c.moves++;
+    }
+  };
+  sort(0, a.length);
+}
+
+// Lomuto partition with the last element as pivot, like the doc - sorted input is its worst case
+function quickSort(a: number[], c: Counters): void {
+  const stack: number[] = [0, a.length - 1];
+  while (stack.length > 0) {
+    const high = stack.pop()!;
+    const low = stack.pop()!;
+    if (low >= high) {
+      continue;
+    }
+    const pivot = a[high];
+    let i = low - 1;
+    for (let j = low; j < high; j++) {
+      c.comparisons++;
+      if (a[j] <= pivot) {
+        i++;
+        if (i !== j) {
+          [a[i], a[j]] = [a[j], a[i]];
+          c.moves++;
+        }
+      }
+    }
+    if (i + 1 !== high) {
+      [a[i + 1], a[high]] = [a[high], a[i + 1]];
+      c.moves++;
+    }
+    stack.push(low, i, i + 2, high);
+  }
+}
+
+function heapSort(a: number[], c: Counters): void {
+  const siftDown = (size: number, start: number) => {
+    let i = start;
+    for (;;) {
+      let largest = i;
+      const left = 2 * i + 1;
+      const right = left + 1;
+      if (left < size) {
+        c.comparisons++;
+        if (a[left] > a[largest]) {
+          largest = left;
+        }
+      }
+      if (right < size) {
+        c.comparisons++;
+        if (a[right] > a[largest]) {
+          largest = right;
+        }
+      }
+      if (largest === i) {
+        return;
+      }
+      [a[i], a[largest]] = [a[largest], a[i]];
+      c.moves++;
+      i = largest;
+    }
+  };
+
+  const n = a.length;
+  for (let i = Math.floor(n / 2) - 1; i >= 0; i--) {
+    siftDown(n, i);
+  }
+  for (let end = n - 1; end > 0; end--) {
+    [a[0], a[end]] = [a[end], a[0]];
+    c.moves++;
+    siftDown(end, 0);
+  }
+}
+
+export const sorts: Record<SortingAlgorithm, (array: number[], counters: Counters) => void> = {
+  bubble: bubbleSort,
+  selection: selectionSort,
+  insertion: insertionSort,
+  merge: mergeSort,
+  quick: quickSort,
+  heap: heapSort,
+};
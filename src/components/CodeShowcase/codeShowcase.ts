@@ -0,0 +1,21 @@
+import { usePluginData } from '@docusaurus/useGlobalData';
+
+// A code fence marked with `showcase` in its meta, e.g. ```go showcase
+export interface ShowcaseSnippet {
+  code: string;
+  language: string;
+  // From the fence's title="…" or, without one, the doc's file name
+  fileName: string;
+  docTitle: string;
+  permalink: string;
+}
+
+export interface CodeShowcaseData {
+  // In sidebar order
+  snippets: ShowcaseSnippet[];
+}
+
+// Collected at build time by plugins/code-showcase
+export function useCodeShowcaseData(): CodeShowcaseData {
+  return usePluginData('code-showcase') as CodeShowcaseData;
+}
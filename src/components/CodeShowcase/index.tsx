@@ -0,0 +1,75 @@
+import React, { useEffect, useState } from 'react';
+import Link from '@docusaurus/Link';
+import CodeBlock from '@theme/CodeBlock';
+import { useCodeShowcaseData } from './codeShowcase';
+import styles from './CodeShowcase.module.css';
+
+const ROTATE_MS = 8000;
+
+interface CodeShowcaseProps {
+  className?: string;
+}
+
+// Rotates through the docs' showcase snippets in a terminal-style frame
+const CodeShowcase: React.FC<CodeShowcaseProps> = ({ className }) => {
+  const { snippets } = useCodeShowcaseData();
+  const [index, setIndex] = useState(0);
+  const [paused, setPaused] = useState(false);
+
+  useEffect(() => {
+    if (paused || snippets.length < 2 || window.matchMedia('(prefers-reduced-motion: reduce)').matches) {
+      return;
+    }
+    const timer = window.setInterval(() => setIndex((current) => (current + 1) % snippets.length), ROTATE_MS);
+    return () => window.clearInterval(timer);
+  }, [paused, snippets.length]);
+
+  if (snippets.length === 0) {
+    return null;
+  }
+  const snippet = snippets[index];
+
+  return (
+    <figure
+      className={`${styles.showcase} ${className || ''}`}
+      onMouseEnter={() => setPaused(true)}
+      onMouseLeave={() => setPaused(false)}
+      onFocus={() => setPaused(true)}
+      onBlur={() => setPaused(false)}>
+      <div className={styles.header}>
+        <div className={styles.terminalButtons} aria-hidden="true">
+          <span className={styles.terminalButton} />
+          <span className={styles.terminalButton} />
+          <span className={styles.terminalButton} />
+        </div>
+        <span className={styles.fileName}>{snippet.fileName}</span>
+        <span className={styles.language}>{snippet.language}</span>
+      </div>
+      <div className={styles.code} aria-live={paused ? 'polite' : 'off'}>
+        <CodeBlock key={index} language={snippet.language}>
+          {snippet.code}
+        </CodeBlock>
+      </div>
+      <figcaption className={styles.footer}>
+        <Link to={snippet.permalink} className={styles.source}>
+          From {snippet.docTitle} →
+        </Link>
+        {snippets.length > 1 && (
+          <div className={styles.dots}>
+            {snippets.map((item, i) => (
+              <button
+                key={i}
+                className={`${styles.dot} ${i === index ? styles.dotActive : ''}`}
+                aria-label={`Show ${item.fileName}`}
+                aria-current={i === index}
+                onClick={() => setIndex(i)}
+              />
+            ))}
+          </div>
+        )}
+      </figcaption>
+    </figure>
+  );
+};
+
+export default CodeShowcase;
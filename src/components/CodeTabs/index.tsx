@@ -0,0 +1,118 @@
+import React, { useId, useRef } from 'react';
+import { useCodeLanguage } from './useCodeLanguage';
+import styles from './CodeTabs.module.css';
+
+interface CodeTabsProps {
+  children: React.ReactNode;
+  className?: string;
+}
+
+interface CodeTab {
+  language: string;
+  content: React.ReactElement;
+}
+
+const LANGUAGE_LABELS: Record<string, string> = {
+  go: 'Go',
+  typescript: 'TypeScript',
+  ts: 'TypeScript',
+  javascript: 'JavaScript',
+  js: 'JavaScript',
+  python: 'Python',
+  py: 'Python',
+  java: 'Java',
+  rust: 'Rust',
+  cpp: 'C++',
+};
+
+// Aliases share a tab preference with their canonical language
+const LANGUAGE_ALIASES: Record<string, string> = {
+  ts: 'typescript',
+  js: 'javascript',
+  py: 'python',
+};
+
+// Fenced code blocks arrive as <pre><code className="language-xx" /></pre>
+function getLanguage(element: React.ReactElement): string | null {
+  const code = (element.props as { children?: React.ReactElement }).children;
+  const className = (code?.props as { className?: string } | undefined)?.className ?? '';
+  const match = /language-([\w+-]+)/.exec(className);
+  if (!match) {
+    return null;
+  }
+  return LANGUAGE_ALIASES[match[1]] ?? match[1];
+}
+
+const CodeTabs: React.FC<CodeTabsProps> = ({ children, className }) => {
+  const [preferredLanguage, setPreferredLanguage] = useCodeLanguage();
+  const groupId = useId();
+  const tabRefs = useRef<(HTMLButtonElement | null)[]>([]);
+
+  const tabs: CodeTab[] = React.Children.toArray(children)
+    .filter(React.isValidElement)
+    .map((content) => ({ language: getLanguage(content), content }))
+    .filter((tab): tab is CodeTab => tab.language !== null);
+
+  if (tabs.length === 0) {
+    return <>{children}</>;
+  }
+
+  const selected = tabs.some((tab) => tab.language === preferredLanguage)
+    ? preferredLanguage
+    : tabs[0].language;
+
+  // Focus follows the selection, as in the WAI-ARIA tabs pattern
+  const handleKeyDown = (event: React.KeyboardEvent, index: number) => {
+    const targets: Record<string, number> = {
+      ArrowRight: (index + 1) % tabs.length,
+      ArrowLeft: (index - 1 + tabs.length) % tabs.length,
+      Home: 0,
+      End: tabs.length - 1,
+    };
+    const next = targets[event.key];
+    if (next !== undefined) {
+      event.preventDefault();
+      setPreferredLanguage(tabs[next].language);
+      tabRefs.current[next]?.focus();
+    }
+  };
+
+  return (
+    <div className={`${styles.codeTabs} ${className || ''}`}>
+      <div className={styles.tabList} role="tablist" aria-label="Implementation language">
+        {tabs.map((tab, index) => (
+          <button
+            key={tab.language}
+            ref={(button) => {
+              tabRefs.current[index] = button;
+            }}
+            id={`${groupId}-tab-${tab.language}`}
+            className={`${styles.tab} ${tab.language === selected ? styles.active : ''}`}
+            role="tab"
+            aria-selected={tab.language === selected}
+            aria-controls={`${groupId}-panel-${tab.language}`}
+            tabIndex={tab.language === selected ? 0 : -1}
+            onClick={() => setPreferredLanguage(tab.language)}
+            onKeyDown={(event) => handleKeyDown(event, index)}
+          >
+            {LANGUAGE_LABELS[tab.language] ?? tab.language}
+          </button>
+        ))}
+      </div>
+      {tabs.map((tab) => (
+        <div
+          key={tab.language}
+          id={`${groupId}-panel-${tab.language}`}
+          className={styles.panel}
+          role="tabpanel"
+          aria-labelledby={`${groupId}-tab-${tab.language}`}
+          hidden={tab.language !== selected}
+        >
+          {tab.content}
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default CodeTabs;
@@ -0,0 +1,11 @@
+import { createPersistentStore, usePersistentStore } from '../../utils/persistentStore';
+
+// Every mounted tab group subscribes here so a choice in one group updates all of them
+const languageStore = createPersistentStore<string | null>('code-language', (stored) => stored, null, {
+  // Stored as the bare language name
+  serialize: (language) => language ?? '',
+});
+
+export function useCodeLanguage(): [string | null, (language: string) => void] {
+  return [usePersistentStore(languageStore), languageStore.write];
+}
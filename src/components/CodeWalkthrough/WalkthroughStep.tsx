@@ -0,0 +1,13 @@
+import React from 'react';
+
+interface WalkthroughStepProps {
+  // Line range in the walkthrough's code block, e.g. "12-20" or "7"
+  lines: string;
+  title?: string;
+  children?: React.ReactNode;
+}
+
+// Only a marker: CodeWalkthrough reads its props and renders the prose itself
+const WalkthroughStep: React.FC<WalkthroughStepProps> = ({ children }) => <>{children}</>;
+
+export default WalkthroughStep;
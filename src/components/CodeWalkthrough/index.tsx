@@ -0,0 +1,165 @@
+import React, { useEffect, useRef, useState } from 'react';
+import CodeBlock from '@theme/CodeBlock';
+import WalkthroughStep from './WalkthroughStep';
+import styles from './CodeWalkthrough.module.css';
+
+interface CodeWalkthroughProps {
+  children: React.ReactNode;
+  className?: string;
+}
+
+interface LineRange {
+  start: number;
+  end: number;
+}
+
+interface Step {
+  range: LineRange | null;
+  title?: string;
+  content: React.ReactNode;
+}
+
+interface Code {
+  language?: string;
+  meta: string;
+  code: string;
+}
+
+function parseRange(value: string): LineRange | null {
+  const match = /^\s*(\d+)(?:\s*-\s*(\d+))?\s*$/.exec(value);
+  if (!match) {
+    return null;
+  }
+  const start = Number(match[1]);
+  return { start, end: match[2] ? Math.max(start, Number(match[2])) : start };
+}
+
+function formatRange({ start, end }: LineRange): string {
+  return start === end ? `Line ${start}` : `Lines ${start}–${end}`;
+}
+
+// Fenced code blocks arrive as <pre><code className="language-xx" metastring="..." /></pre>
+function getCode(element: React.ReactElement): Code | null {
+  const code = (element.props as { children?: React.ReactElement }).children;
+  const props = code?.props as { className?: string; metastring?: string; children?: unknown } | undefined;
+  if (typeof props?.children !== 'string') {
+    return null;
+  }
+  return {
+    language: /language-([\w+-]+)/.exec(props.className ?? '')?.[1],
+    meta: props.metastring ?? '',
+    code: props.children,
+  };
+}
+
+// Steps are either <WalkthroughStep lines="..."> children, or the ranges in the fence's
+// steps="..." meta paired in order with the blocks that follow the code.
+// Children that belong to no step are returned as well, so they still render.
+function getSteps(code: Code, rest: React.ReactElement[]): { steps: Step[]; unmatched: React.ReactElement[] } {
+  const children = rest.filter((element) => element.type === WalkthroughStep);
+  if (children.length > 0) {
+    const steps = children.map((element) => {
+      const { lines, title, children: content } = element.props as React.ComponentProps<typeof WalkthroughStep>;
+      return { range: parseRange(lines), title, content };
+    });
+    return { steps, unmatched: rest.filter((element) => element.type !== WalkthroughStep) };
+  }
+  const ranges = /\bsteps="([^"]*)"/.exec(code.meta)?.[1].split(',') ?? [];
+  // Thrown while the page is rendered on the server, so the build fails as it does in development
+  if (ranges.length > rest.length) {
+    throw new Error(`CodeWalkthrough has ${ranges.length} ranges in steps="..." but ${rest.length} blocks to pair them with`);
+  }
+  const steps = ranges.slice(0, rest.length).map((range, i) => ({ range: parseRange(range), content: rest[i] }));
+  return { steps, unmatched: rest.slice(steps.length) };
+}
+
+// Pins a code block beside the prose that explains it and highlights the lines of the current step
+const CodeWalkthrough: React.FC<CodeWalkthroughProps> = ({ children, className }) => {
+  const [active, setActive] = useState(0);
+  const paneRef = useRef<HTMLDivElement>(null);
+
+  const elements = React.Children.toArray(children).filter(React.isValidElement);
+  const codeIndex = elements.findIndex((element) => getCode(element) !== null);
+  const code = codeIndex === -1 ? null : getCode(elements[codeIndex]);
+  const { steps, unmatched } = code
+    ? getSteps(code, elements.filter((_, i) => i !== codeIndex))
+    : { steps: [], unmatched: [] };
+  const current = steps[Math.min(active, steps.length - 1)];
+
+  // Scroll the pane, not the page, so the step being read stays in view
+  useEffect(() => {
+    const pane = paneRef.current;
+    const line = pane?.querySelector<HTMLElement>('.theme-code-block-highlighted-line');
+    if (!pane || !line) {
+      return;
+    }
+    const top = line.getBoundingClientRect().top - pane.getBoundingClientRect().top + pane.scrollTop;
+    const reducedMotion = window.matchMedia('(prefers-reduced-motion: reduce)').matches;
+    pane.scrollTo({ top: Math.max(0, top - 32), behavior: reducedMotion ? 'auto' : 'smooth' });
+  }, [active]);
+
+  if (!code || steps.length === 0) {
+    return <>{children}</>;
+  }
+
+  // The fence's own highlight is replaced by the current step's range
+  const metastring = [
+    code.meta.replace(/\bsteps="[^"]*"/, '').replace(/\{[\d,\s-]*\}/, '').trim(),
+    current.range && `{${current.range.start}-${current.range.end}}`,
+  ]
+    .filter(Boolean)
+    .join(' ');
+
+  const go = (index: number) => setActive(Math.max(0, Math.min(steps.length - 1, index)));
+
+  return (
+    <>
+      <div className={`${styles.walkthrough} ${className || ''}`}>
+        <div className={styles.steps}>
+          <div className={styles.toolbar}>
+            <span className={styles.progress}>
+              Step {active + 1} of {steps.length}
+            </span>
+            <button
+              className="button button--secondary button--sm"
+              onClick={() => go(active - 1)}
+              disabled={active === 0}
+              aria-label="Previous step">
+              ←
+            </button>
+            <button
+              className="button button--secondary button--sm"
+              onClick={() => go(active + 1)}
+              disabled={active === steps.length - 1}
+              aria-label="Next step">
+              →
+            </button>
+          </div>
+          <ol className={styles.stepList}>
+            {steps.map((step, i) => (
+              <li
+                key={i}
+                className={`${styles.step} ${i === active ? styles.stepActive : ''}`}
+                aria-current={i === active ? 'step' : undefined}
+                onClick={() => go(i)}>
+                <button className={styles.stepHeader}>
+                  <span className={styles.stepTitle}>{step.title ?? `Step ${i + 1}`}</span>
+                  {step.range && <span className={styles.stepLines}>{formatRange(step.range)}</span>}
+                </button>
+                <div className={styles.stepContent}>{step.content}</div>
+              </li>
+            ))}
+          </ol>
+        </div>
+        <div ref={paneRef} className={styles.code}>
+          <CodeBlock language={code.language} metastring={metastring} showLineNumbers>
+            {code.code}
+          </CodeBlock>
+        </div>
+      </div>
+      {unmatched}
+    </>
+  );
+};
+
+export default CodeWalkthrough;
@@ -1,29 +1,17 @@
 import React from 'react';
+import useDocusaurusContext from '@docusaurus/useDocusaurusContext';
+import { useBaseUrlUtils } from '@docusaurus/useBaseUrl';
+import { HIDDEN_IN_READING_MODE } from '../ReadingMode/useReadingMode';
+import { useContributorsData } from '../Contributors/contributors';
 
-interface Contributor {
-  name: string;
-  role: string;
-  avatar: string;
-  github?: string;
-  linkedin?: string;
-  website?: string;
-}
-
-const contributors: Contributor[] = [
-  {
-    name: 'Vugar Mammadli',
-    role: 'Founder & Lead Developer',
-    avatar: 'https://github.com/l00pss.png',
-    github: 'https://github.com/l00pss',
-    linkedin: 'https://linkedin.com/in/vuqar-mammadli',
-    website: 'https://buymeacoffee.com/l00pss'
-  },
-  // Add more contributors here as the project grows
-];
-
+// Lists everyone in blog/authors.yml, see plugins/contributors
 const ContributorFooter: React.FC = () => {
+  const { contributors } = useContributorsData();
+  const { siteConfig } = useDocusaurusContext();
+  const { withBaseUrl } = useBaseUrlUtils();
+
   return (
-    <section style={{
+    <section className={HIDDEN_IN_READING_MODE} style={{
       backgroundColor: 'var(--ifm-background-surface-color)',
       borderTop: '1px solid var(--ifm-color-emphasis-300)',
       padding: '3rem 0',
@@ -58,9 +46,9 @@ const ContributorFooter: React.FC = () => {
           flexWrap: 'wrap',
           gap: '2rem'
         }}>
-          {contributors.map((contributor, index) => (
+          {contributors.map((contributor) => (
             <div
-              key={index}
+              key={contributor.key}
               style={{
                 display: 'flex',
                 flexDirection: 'column',
@@ -87,7 +75,7 @@ const ContributorFooter: React.FC = () => {
               }}
             >
               <img
-                src={contributor.avatar}
+                src={withBaseUrl(contributor.imageURL ?? '/img/logo.svg')}
                 alt={contributor.name}
                 style={{
                   width: '80px',
@@ -112,7 +100,7 @@ const ContributorFooter: React.FC = () => {
                 fontWeight: '500',
                 margin: '0 0 1rem 0'
               }}>
-                {contributor.role}
+                {contributor.title}
               </p>
 
               <div style={{
@@ -120,9 +108,9 @@ const ContributorFooter: React.FC = () => {
                 gap: '0.5rem',
                 justifyContent: 'center'
               }}>
-                {contributor.github && (
+                {contributor.socials.github && (
                   <a
-                    href={contributor.github}
+                    href={contributor.socials.github}
                     target="_blank"
                     rel="noopener noreferrer"
                     style={{
@@ -151,9 +139,9 @@ const ContributorFooter: React.FC = () => {
                   </a>
                 )}
 
-                {contributor.linkedin && (
+                {contributor.socials.linkedin && (
                   <a
-                    href={contributor.linkedin}
+                    href={contributor.socials.linkedin}
                     target="_blank"
                     rel="noopener noreferrer"
                     style={{
@@ -182,9 +170,9 @@ const ContributorFooter: React.FC = () => {
                   </a>
                 )}
 
-                {contributor.website && (
+                {contributor.url && (
                   <a
-                    href={contributor.website}
+                    href={contributor.url}
                     target="_blank"
                     rel="noopener noreferrer"
                     style={{
@@ -231,7 +219,7 @@ const ContributorFooter: React.FC = () => {
             Want to contribute to SupDino?
           </p>
           <a
-            href="https://github.com/l00pss/supdino"
+            href={siteConfig.customFields?.repositoryUrl as string}
             target="_blank"
             rel="noopener noreferrer"
             style={{
@@ -0,0 +1,90 @@
+import React from 'react';
+import { useBaseUrlUtils } from '@docusaurus/useBaseUrl';
+import { HIDDEN_IN_READING_MODE } from '../ReadingMode/useReadingMode';
+import { profileUrl, useContributorsData, type Contributor } from './contributors';
+import styles from './Contributors.module.css';
+
+interface DocContributorsProps {
+  docId: string;
+  className?: string;
+}
+
+const Avatar: React.FC<{ name: string; imageURL?: string }> = ({ name, imageURL }) => {
+  const { withBaseUrl } = useBaseUrlUtils();
+  return imageURL ? (
+    <img className={styles.avatar} src={withBaseUrl(imageURL)} alt="" loading="lazy" />
+  ) : (
+    <span className={styles.avatar} aria-hidden="true">{name.charAt(0).toUpperCase()}</span>
+  );
+};
+
+const Name: React.FC<{ name: string; contributor?: Contributor }> = ({ name, contributor }) => {
+  const href = contributor && profileUrl(contributor);
+  return href ? (
+    <a href={href} target="_blank" rel="noopener noreferrer">{name}</a>
+  ) : (
+    <span>{name}</span>
+  );
+};
+
+// Fixed locale and time zone, so the server render and the browser agree
+function formatDate(date: string): string {
+  return new Date(date).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric', timeZone: 'UTC' });
+}
+
+// The doc's front matter authors and everyone with commits to its source file
+const DocContributors: React.FC<DocContributorsProps> = ({ docId, className }) => {
+  const { contributors, docs } = useContributorsData();
+  const doc = docs[docId];
+  if (!doc || (doc.authors.length === 0 && doc.contributors.length === 0)) {
+    return null;
+  }
+
+  const byKey = new Map(contributors.map((contributor) => [contributor.key, contributor]));
+  const authors = doc.authors.map((key) => byKey.get(key)).filter((author): author is Contributor => !!author);
+
+  return (
+    <section className={`${styles.docContributors} ${HIDDEN_IN_READING_MODE} ${className || ''}`}>
+      {authors.length > 0 && (
+        <div className={styles.group}>
+          <h4 className={styles.heading}>Written by</h4>
+          <ul className={styles.people}>
+            {authors.map((author) => (
+              <li key={author.key} className={styles.person}>
+                <Avatar name={author.name} imageURL={author.imageURL} />
+                <Name name={author.name} contributor={author} />
+                {author.title && <span className={styles.detail}>{author.title}</span>}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+      {doc.contributors.length > 0 && (
+        <div className={styles.group}>
+          <h4 className={styles.heading}>Contributors to this page</h4>
+          <ul className={styles.people}>
+            {doc.contributors.map((person, index) => {
+              const contributor = person.key ? byKey.get(person.key) : undefined;
+              // Committers missing from authors.yml can share a name
+              return (
+                <li
+                  key={person.key ?? `${person.name}-${index}`}
+                  className={styles.person}
+                  title={`Last change on ${formatDate(person.lastCommit)}`}
+                >
+                  <Avatar name={person.name} imageURL={contributor?.imageURL} />
+                  <Name name={person.name} contributor={contributor} />
+                  <span className={styles.detail}>
+                    {person.commits} {person.commits === 1 ? 'commit' : 'commits'}
+                  </span>
+                </li>
+              );
+            })}
+          </ul>
+        </div>
+      )}
+    </section>
+  );
+};
+
+export default DocContributors;
@@ -0,0 +1,40 @@
+import { usePluginData } from '@docusaurus/useGlobalData';
+
+// An entry of blog/authors.yml, with socials already turned into URLs
+export interface Contributor {
+  key: string;
+  name: string;
+  title?: string;
+  imageURL?: string;
+  url?: string;
+  socials: Record<string, string>;
+}
+
+// Someone with commits to a doc, linked to the data file when their email matches an entry
+export interface PageContributor {
+  name: string;
+  key?: string;
+  commits: number;
+  lastCommit: string;
+}
+
+export interface DocContributors {
+  // Keys from the doc's `authors` front matter
+  authors: string[];
+  contributors: PageContributor[];
+}
+
+export interface ContributorsData {
+  contributors: Contributor[];
+  docs: Record<string, DocContributors>;
+}
+
+// Collected at build time by plugins/contributors
+export function useContributorsData(): ContributorsData {
+  return usePluginData('contributors') as ContributorsData;
+}
+
+// Where a contributor's name links to
+export function profileUrl(contributor: Contributor): string | undefined {
+  return contributor.socials.github ?? contributor.url;
+}
@@ -0,0 +1,23 @@
+export const DIFFICULTIES = ['beginner', 'intermediate', 'advanced'] as const;
+export type Difficulty = (typeof DIFFICULTIES)[number];
+
+// Added to every doc's sidebar_custom_props at build time by plugins/reading-time
+export interface DocMetadata {
+  readingTime?: number;
+  difficulty?: Difficulty;
+}
+
+export function readDocMetadata(customProps: unknown): DocMetadata {
+  if (typeof customProps !== 'object' || customProps === null) {
+    return {};
+  }
+  const { readingTime, difficulty } = customProps as Record<string, unknown>;
+  return {
+    readingTime: typeof readingTime === 'number' ? readingTime : undefined,
+    difficulty: DIFFICULTIES.includes(difficulty as Difficulty) ? (difficulty as Difficulty) : undefined,
+  };
+}
+
+export function formatReadingTime(minutes: number): string {
+  return `${minutes} min read`;
+}
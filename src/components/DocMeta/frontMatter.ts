@@ -0,0 +1,156 @@
+import { DIFFICULTIES, type Difficulty } from './docMeta';
+import type { QuizQuestion } from '../Quiz/types';
+
+// Big-O strings such as "O(n log n)"
+export interface CaseComplexity {
+  best: string;
+  average: string;
+  worst: string;
+}
+
+export interface Complexity {
+  time: CaseComplexity;
+  // A single bound, or one per case when they differ
+  space: string | CaseComplexity;
+}
+
+// Front matter of every doc under docs/, checked at build time by plugins/doc-front-matter.
+// README.md documents each field for authors.
+export interface DocFrontMatter {
+  title: string;
+  description: string;
+  difficulty: Difficulty;
+  tags?: string[];
+  // Ids of docs to read first, e.g. algorithms/sorting/insertion-sort
+  prerequisites?: string[];
+  // Minutes to work through the doc, replaces the computed reading time; plugins/reading-time
+  // fails the build when it is less than half of it
+  estimated_time?: number;
+  // Required for algorithm docs
+  complexity?: Complexity;
+  // Required for sorting algorithms
+  stable?: boolean;
+  // Required for sorting algorithms
+  in_place?: boolean;
+  // Keys of blog/authors.yml, checked by plugins/contributors
+  authors?: string[];
+  // Checked by plugins/quiz-front-matter
+  quiz?: QuizQuestion[];
+}
+
+const BIG_O = /^O\(.+\)$/;
+export const CASES: (keyof CaseComplexity)[] = ['best', 'average', 'worst'];
+
+// Docs describing one algorithm, as opposed to pages directly under algorithms/ such as the introduction
+export function isAlgorithmDoc(docId: string): boolean {
+  return /^algorithms\/[^/]+\/./.test(docId);
+}
+
+export function isSortingDoc(docId: string): boolean {
+  return docId.startsWith('algorithms/sorting/');
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isNonEmptyString(value: unknown): value is string {
+  return typeof value === 'string' && value.trim() !== '';
+}
+
+function isStringList(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every(isNonEmptyString);
+}
+
+function validateCases(cases: unknown, field: string): string[] {
+  if (!isRecord(cases)) {
+    return [`${field} must list ${CASES.join(', ')}`];
+  }
+  const errors: string[] = [];
+  for (const complexityCase of CASES) {
+    if (!isNonEmptyString(cases[complexityCase]) || !BIG_O.test(cases[complexityCase])) {
+      errors.push(`${field}.${complexityCase} must be in Big-O notation like "O(n log n)"`);
+    }
+  }
+  const extra = Object.keys(cases).filter((key) => !CASES.includes(key as keyof CaseComplexity));
+  if (extra.length > 0) {
+    errors.push(`${field} has unknown cases: ${extra.join(', ')}`);
+  }
+  return errors;
+}
+
+function validateComplexity(complexity: unknown): string[] {
+  if (!isRecord(complexity)) {
+    return ['complexity must have time and space'];
+  }
+  const errors = validateCases(complexity.time, 'complexity.time');
+  if (isRecord(complexity.space)) {
+    errors.push(...validateCases(complexity.space, 'complexity.space'));
+  } else if (!isNonEmptyString(complexity.space) || !BIG_O.test(complexity.space)) {
+    errors.push('complexity.space must be in Big-O notation like "O(1)", or list best, average and worst');
+  }
+  return errors;
+}
+
+// Returns one message per problem so authors can fix a doc in a single pass.
+// docIds are all known docs, for checking prerequisites.
+export function validateDocFrontMatter(docId: string, frontMatter: Record<string, unknown>, docIds: string[]): string[] {
+  const errors: string[] = [];
+  const { title, description, difficulty, tags, prerequisites, estimated_time, complexity, stable, in_place } = frontMatter;
+
+  if (!isNonEmptyString(title)) {
+    errors.push('title is required');
+  }
+  if (!isNonEmptyString(description)) {
+    errors.push('description is required');
+  }
+  if (!DIFFICULTIES.includes(difficulty as Difficulty)) {
+    errors.push(
+      difficulty === undefined
+        ? `difficulty is required, one of ${DIFFICULTIES.join(', ')}`
+        : `difficulty is "${String(difficulty)}", expected one of ${DIFFICULTIES.join(', ')}`,
+    );
+  }
+  if (tags !== undefined && !isStringList(tags)) {
+    errors.push('tags must be a list of tag names');
+  }
+
+  if (prerequisites !== undefined) {
+    if (!isStringList(prerequisites)) {
+      errors.push('prerequisites must be a list of doc ids');
+    } else {
+      for (const prerequisite of prerequisites) {
+        if (prerequisite === docId) {
+          errors.push('prerequisites must not include the doc itself');
+        } else if (!docIds.includes(prerequisite)) {
+          errors.push(`prerequisite "${prerequisite}" is not a doc id`);
+        }
+      }
+    }
+  }
+
+  if (estimated_time !== undefined && !(Number.isInteger(estimated_time) && (estimated_time as number) > 0)) {
+    errors.push('estimated_time must be a whole number of minutes');
+  }
+
+  if (complexity !== undefined) {
+    errors.push(...validateComplexity(complexity));
+  } else if (isAlgorithmDoc(docId)) {
+    errors.push('complexity is required for algorithm docs');
+  }
+  if (stable !== undefined && typeof stable !== 'boolean') {
+    errors.push('stable must be true or false');
+  } else if (stable === undefined && isSortingDoc(docId)) {
+    errors.push('stable is required for sorting algorithms');
+  } else if (stable !== undefined && !isAlgorithmDoc(docId)) {
+    errors.push('stable only applies to algorithm docs');
+  }
+  if (in_place !== undefined && typeof in_place !== 'boolean') {
+    errors.push('in_place must be true or false');
+  } else if (in_place === undefined && isSortingDoc(docId)) {
+    errors.push('in_place is required for sorting algorithms');
+  } else if (in_place !== undefined && !isAlgorithmDoc(docId)) {
+    errors.push('in_place only applies to algorithm docs');
+  }
+  return errors;
+}
@@ -0,0 +1,42 @@
+import React from 'react';
+import { formatReadingTime, type DocMetadata } from './docMeta';
+import styles from './DocMeta.module.css';
+
+interface DocMetaProps extends DocMetadata {
+  // Actions shown at the end of the row
+  children?: React.ReactNode;
+  className?: string;
+}
+
+const DIFFICULTY_LABELS = {
+  beginner: 'Beginner',
+  intermediate: 'Intermediate',
+  advanced: 'Advanced',
+};
+
+const DocMeta: React.FC<DocMetaProps> = ({ readingTime, difficulty, children, className }) => {
+  if (readingTime === undefined && difficulty === undefined) {
+    return null;
+  }
+
+  return (
+    <div className={`${styles.docMeta} ${className || ''}`}>
+      {readingTime !== undefined && (
+        <span className={styles.readingTime}>
+          <svg className={styles.icon} viewBox="0 0 24 24" aria-hidden="true">
+            <path d="M12,2A10,10 0 0,0 2,12A10,10 0 0,0 12,22A10,10 0 0,0 22,12A10,10 0 0,0 12,2M16.2,16.2L11,13V7H12.5V12.2L17,14.7L16.2,16.2Z" />
+          </svg>
+          {formatReadingTime(readingTime)}
+        </span>
+      )}
+      {difficulty && (
+        <span className={`${styles.difficulty} ${styles[difficulty]}`} title="Difficulty">
+          {DIFFICULTY_LABELS[difficulty]}
+        </span>
+      )}
+      {children}
+    </div>
+  );
+};
+
+export default DocMeta;
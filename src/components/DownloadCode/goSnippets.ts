@@ -0,0 +1,17 @@
+import { usePluginData } from '@docusaurus/useGlobalData';
+
+// The Go snippets of one doc, zipped as .go files
+export interface GoDownload {
+  url: string;
+  files: string[];
+}
+
+export interface GoSnippetsData {
+  // By doc id, only docs with Go fences
+  downloads: Record<string, GoDownload>;
+}
+
+// Collected at build time by plugins/go-snippets
+export function useGoSnippetsData(): GoSnippetsData {
+  return usePluginData('go-snippets') as GoSnippetsData;
+}
@@ -0,0 +1,36 @@
+import React from 'react';
+import useBaseUrl from '@docusaurus/useBaseUrl';
+import { useGoSnippetsData } from './goSnippets';
+import styles from './DownloadCode.module.css';
+
+interface DownloadCodeProps {
+  docId: string;
+  className?: string;
+}
+
+// Links to the zip of a doc's Go snippets, nothing for docs without Go code
+const DownloadCode: React.FC<DownloadCodeProps> = ({ docId, className }) => {
+  const download = useGoSnippetsData().downloads[docId];
+  const url = useBaseUrl(download?.url ?? '/');
+  if (!download) {
+    return null;
+  }
+
+  return (
+    <a
+      className={`${styles.downloadCode} ${className || ''}`}
+      href={url}
+      download
+      title={download.files.join(', ')}>
+      <svg className={styles.icon} viewBox="0 0 24 24" aria-hidden="true">
+        <path d="M5,20H19V18H5M19,9H15V3H9V9H5L12,16L19,9Z" />
+      </svg>
+      Download code
+      <span className={styles.count}>
+        {download.files.length} {download.files.length === 1 ? 'file' : 'files'}
+      </span>
+    </a>
+  );
+};
+
+export default DownloadCode;
@@ -0,0 +1,112 @@
+export interface Vertex {
+  id: string;
+  x: number;
+  y: number;
+}
+
+export interface Edge {
+  from: string;
+  to: string;
+  weight: number;
+}
+
+export interface Graph {
+  vertices: Vertex[];
+  edges: Edge[];
+}
+
+export const CANVAS_WIDTH = 640;
+export const CANVAS_HEIGHT = 380;
+
+// Figure 1 of the MST article: the classic seven-vertex example graph
+export const exampleGraph: Graph = {
+  vertices: [
+    { id: 'A', x: 90, y: 90 },
+    { id: 'B', x: 290, y: 60 },
+    { id: 'C', x: 500, y: 90 },
+    { id: 'D', x: 140, y: 220 },
+    { id: 'E', x: 380, y: 200 },
+    { id: 'F', x: 230, y: 320 },
+    { id: 'G', x: 500, y: 320 },
+  ],
+  edges: [
+    { from: 'A', to: 'B', weight: 7 },
+    { from: 'A', to: 'D', weight: 5 },
+    { from: 'B', to: 'C', weight: 8 },
+    { from: 'B', to: 'D', weight: 9 },
+    { from: 'B', to: 'E', weight: 7 },
+    { from: 'C', to: 'E', weight: 5 },
+    { from: 'D', to: 'E', weight: 15 },
+    { from: 'D', to: 'F', weight: 6 },
+    { from: 'E', to: 'F', weight: 8 },
+    { from: 'E', to: 'G', weight: 9 },
+    { from: 'F', to: 'G', weight: 11 },
+  ],
+};
+
+export function nextVertexId(graph: Graph): string {
+  const used = new Set(graph.vertices.map((vertex) => vertex.id));
+  for (let i = 0; ; i++) {
+    const id = i < 26 ? String.fromCharCode(65 + i) : `V${i + 1}`;
+    if (!used.has(id)) {
+      return id;
+    }
+  }
+}
+
+export function hasEdge(graph: Graph, a: string, b: string): boolean {
+  return graph.edges.some(
+    (edge) => (edge.from === a && edge.to === b) || (edge.from === b && edge.to === a),
+  );
+}
+
+export function serializeGraph(graph: Graph): string {
+  return JSON.stringify(graph, null, 2);
+}
+
+// Validates shared graph JSON and returns a description of the first problem found
+export function parseGraph(json: string): Graph | string {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch (error) {
+    return `Invalid JSON: ${(error as Error).message}`;
+  }
+
+  const candidate = data as Partial<Graph>;
+  if (!candidate || !Array.isArray(candidate.vertices) || !Array.isArray(candidate.edges)) {
+    return 'Expected an object with "vertices" and "edges" arrays';
+  }
+
+  const ids = new Set<string>();
+  for (const vertex of candidate.vertices) {
+    if (typeof vertex?.id !== 'string' || typeof vertex.x !== 'number' || typeof vertex.y !== 'number') {
+      return 'Every vertex needs a string "id" and numeric "x" and "y"';
+    }
+    if (ids.has(vertex.id)) {
+      return `Duplicate vertex id "${vertex.id}"`;
+    }
+    ids.add(vertex.id);
+  }
+
+  for (const edge of candidate.edges) {
+    if (typeof edge?.weight !== 'number' || !Number.isFinite(edge.weight)) {
+      return 'Every edge needs a numeric "weight"';
+    }
+    if (!ids.has(edge.from) || !ids.has(edge.to)) {
+      return `Edge ${edge.from}-${edge.to} references an unknown vertex`;
+    }
+    if (edge.from === edge.to) {
+      return `Self-loop on vertex "${edge.from}" is not allowed`;
+    }
+  }
+
+  return {
+    vertices: candidate.vertices.map(({ id, x, y }) => ({
+      id,
+      x: Math.min(Math.max(x, 0), CANVAS_WIDTH),
+      y: Math.min(Math.max(y, 0), CANVAS_HEIGHT),
+    })),
+    edges: candidate.edges.map(({ from, to, weight }) => ({ from, to, weight })),
+  };
+}
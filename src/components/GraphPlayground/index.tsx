@@ -0,0 +1,509 @@
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import {
+  CANVAS_HEIGHT,
+  CANVAS_WIDTH,
+  exampleGraph,
+  hasEdge,
+  nextVertexId,
+  parseGraph,
+  serializeGraph,
+  type Graph,
+} from './graph';
+import { generateMstSteps, type MstAlgorithm, type MstStep } from './mst';
+import styles from './GraphPlayground.module.css';
+
+interface GraphPlaygroundProps {
+  algorithm?: MstAlgorithm;
+  graph?: Graph;
+  startVertex?: string;
+  className?: string;
+}
+
+type EditMode = 'move' | 'vertex' | 'edge' | 'delete';
+
+const VERTEX_RADIUS = 18;
+const PLAY_DELAY = 900;
+
+const MODES: { mode: EditMode; label: string; hint: string }[] = [
+  { mode: 'move', label: 'Move', hint: 'Drag vertices. Click an edge to edit its weight.' },
+  { mode: 'vertex', label: 'Add vertex', hint: 'Click on empty space to add a vertex.' },
+  { mode: 'edge', label: 'Add edge', hint: 'Click two vertices to connect them with the weight below.' },
+  { mode: 'delete', label: 'Delete', hint: 'Click a vertex or edge to remove it.' },
+];
+
+// Nested list of the union-find forest, children hang below their parent
+function UnionFindForest({ parent }: { parent: Record<string, string> }) {
+  const children: Record<string, string[]> = {};
+  Object.entries(parent).forEach(([vertex, p]) => {
+    if (vertex !== p) {
+      (children[p] ??= []).push(vertex);
+    }
+  });
+
+  const renderTree = (vertex: string): React.ReactNode => (
+    <li key={vertex}>
+      <span className={styles.forestNode}>{vertex}</span>
+      {children[vertex] && <ul>{children[vertex].map(renderTree)}</ul>}
+    </li>
+  );
+
+  const roots = Object.keys(parent).filter((vertex) => parent[vertex] === vertex);
+  return <ul className={styles.forest}>{roots.map(renderTree)}</ul>;
+}
+
+const GraphPlayground: React.FC<GraphPlaygroundProps> = ({
+  algorithm: initialAlgorithm = 'kruskal',
+  graph: initialGraph = exampleGraph,
+  startVertex: initialStart,
+  className,
+}) => {
+  const [graph, setGraph] = useState<Graph>(initialGraph);
+  const [algorithm, setAlgorithm] = useState<MstAlgorithm>(initialAlgorithm);
+  const [startVertex, setStartVertex] = useState(initialStart ?? initialGraph.vertices[0]?.id ?? '');
+  const [mode, setMode] = useState<EditMode>('move');
+  const [weight, setWeight] = useState(1);
+  // What is typed in the weight field, only applied once it parses
+  const [weightDraft, setWeightDraft] = useState('1');
+  const [pendingVertex, setPendingVertex] = useState<string | null>(null);
+  const [selectedEdge, setSelectedEdge] = useState<number | null>(null);
+  const [dragging, setDragging] = useState<string | null>(null);
+  const [stepIndex, setStepIndex] = useState(0);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [json, setJson] = useState(() => serializeGraph(initialGraph));
+  const [jsonError, setJsonError] = useState<string | null>(null);
+  const svgRef = useRef<SVGSVGElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const steps = useMemo(
+    () => generateMstSteps(graph, algorithm, startVertex),
+    [graph, algorithm, startVertex],
+  );
+  const step: MstStep = steps[Math.min(stepIndex, steps.length - 1)];
+  const isFinished = stepIndex >= steps.length - 1;
+  const vertexById = useMemo(
+    () => new Map(graph.vertices.map((vertex) => [vertex.id, vertex])),
+    [graph.vertices],
+  );
+
+  useEffect(() => {
+    if (!isPlaying) {
+      return undefined;
+    }
+    if (isFinished) {
+      setIsPlaying(false);
+      return undefined;
+    }
+    const timer = window.setTimeout(() => setStepIndex((index) => index + 1), PLAY_DELAY);
+    return () => window.clearTimeout(timer);
+  }, [isPlaying, isFinished, stepIndex]);
+
+  // Any edit invalidates the current run
+  const updateGraph = (next: Graph) => {
+    setGraph(next);
+    setJson(serializeGraph(next));
+    setStepIndex(0);
+    setIsPlaying(false);
+    if (!next.vertices.some((vertex) => vertex.id === startVertex)) {
+      setStartVertex(next.vertices[0]?.id ?? '');
+    }
+  };
+
+  const toSvgPoint = (event: React.PointerEvent): { x: number; y: number } => {
+    const svg = svgRef.current;
+    const matrix = svg?.getScreenCTM();
+    if (!svg || !matrix) {
+      return { x: 0, y: 0 };
+    }
+    const point = new DOMPoint(event.clientX, event.clientY).matrixTransform(matrix.inverse());
+    return {
+      x: Math.round(Math.min(Math.max(point.x, VERTEX_RADIUS), CANVAS_WIDTH - VERTEX_RADIUS)),
+      y: Math.round(Math.min(Math.max(point.y, VERTEX_RADIUS), CANVAS_HEIGHT - VERTEX_RADIUS)),
+    };
+  };
+
+  const handleCanvasClick = (event: React.PointerEvent) => {
+    if (mode !== 'vertex' || event.target !== event.currentTarget) {
+      return;
+    }
+    const { x, y } = toSvgPoint(event);
+    updateGraph({ ...graph, vertices: [...graph.vertices, { id: nextVertexId(graph), x, y }] });
+  };
+
+  const handleVertexDown = (event: React.PointerEvent, id: string) => {
+    event.stopPropagation();
+    if (mode === 'move') {
+      (event.target as Element).setPointerCapture?.(event.pointerId);
+      setDragging(id);
+    } else if (mode === 'delete') {
+      updateGraph({
+        vertices: graph.vertices.filter((vertex) => vertex.id !== id),
+        edges: graph.edges.filter((edge) => edge.from !== id && edge.to !== id),
+      });
+    } else if (mode === 'edge') {
+      if (pendingVertex === null) {
+        setPendingVertex(id);
+      } else {
+        if (pendingVertex !== id && !hasEdge(graph, pendingVertex, id)) {
+          updateGraph({ ...graph, edges: [...graph.edges, { from: pendingVertex, to: id, weight }] });
+        }
+        setPendingVertex(null);
+      }
+    }
+  };
+
+  const handlePointerMove = (event: React.PointerEvent) => {
+    if (dragging === null) {
+      return;
+    }
+    const { x, y } = toSvgPoint(event);
+    // Dragging only moves vertices, so the current run stays valid
+    setGraph((current) => ({
+      ...current,
+      vertices: current.vertices.map((vertex) => (vertex.id === dragging ? { ...vertex, x, y } : vertex)),
+    }));
+  };
+
+  const handlePointerUp = () => {
+    if (dragging !== null) {
+      setDragging(null);
+      setJson(serializeGraph(graph));
+    }
+  };
+
+  const handleEdgeClick = (event: React.MouseEvent, index: number) => {
+    event.stopPropagation();
+    if (mode === 'delete') {
+      updateGraph({ ...graph, edges: graph.edges.filter((_, i) => i !== index) });
+      setSelectedEdge(null);
+    } else if (mode === 'move') {
+      setSelectedEdge(index);
+      setWeight(graph.edges[index].weight);
+      setWeightDraft(String(graph.edges[index].weight));
+    }
+  };
+
+  // Runs on blur and Enter, a cleared or half-typed field goes back to the last valid weight
+  const commitWeight = () => {
+    const value = Number(weightDraft);
+    if (weightDraft.trim() === '' || !Number.isFinite(value)) {
+      setWeightDraft(String(weight));
+      return;
+    }
+    setWeight(value);
+    setWeightDraft(String(value));
+    if (mode === 'move' && selectedEdge !== null) {
+      updateGraph({
+        ...graph,
+        edges: graph.edges.map((edge, i) => (i === selectedEdge ? { ...edge, weight: value } : edge)),
+      });
+    }
+  };
+
+  const changeMode = (next: EditMode) => {
+    setMode(next);
+    setPendingVertex(null);
+    setSelectedEdge(null);
+  };
+
+  const importJson = (text: string) => {
+    const parsed = parseGraph(text);
+    if (typeof parsed === 'string') {
+      setJsonError(parsed);
+      return;
+    }
+    setJsonError(null);
+    setSelectedEdge(null);
+    updateGraph(parsed);
+  };
+
+  const handleFileImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (file) {
+      const text = await file.text();
+      setJson(text);
+      importJson(text);
+    }
+    event.target.value = '';
+  };
+
+  const downloadJson = () => {
+    const blob = new Blob([serializeGraph(graph)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'graph.json';
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const edgeClassName = (index: number): string => {
+    const classes = [styles.edge];
+    if (step.accepted.includes(index)) {
+      classes.push(styles.accepted);
+    } else if (step.rejected.includes(index)) {
+      classes.push(styles.rejected);
+    }
+    if (step.current === index) {
+      classes.push(styles.current);
+    }
+    if (selectedEdge === index) {
+      classes.push(styles.selected);
+    }
+    return classes.join(' ');
+  };
+
+  const vertexClassName = (id: string): string => {
+    const classes = [styles.vertex];
+    if (step.inTree?.includes(id)) {
+      classes.push(styles.inTree);
+    }
+    if (pendingVertex === id) {
+      classes.push(styles.pending);
+    }
+    return classes.join(' ');
+  };
+
+  const edgeLabel = (index: number): string => {
+    const edge = graph.edges[index];
+    return `${edge.from}–${edge.to} (${edge.weight})`;
+  };
+
+  return (
+    <div className={`${styles.playground} ${className || ''}`}>
+      <div className={styles.toolbar}>
+        <div className={styles.modes} role="group" aria-label="Edit mode">
+          {MODES.map(({ mode: m, label }) => (
+            <button
+              key={m}
+              className={`${styles.modeButton} ${mode === m ? styles.active : ''}`}
+              onClick={() => changeMode(m)}
+              aria-pressed={mode === m}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+        <label className={styles.field}>
+          Weight
+          <input
+            type="number"
+            value={weightDraft}
+            onChange={(e) => setWeightDraft(e.target.value)}
+            onBlur={commitWeight}
+            onKeyDown={(e) => e.key === 'Enter' && commitWeight()}
+            className={styles.weightInput}
+          />
+        </label>
+        <button className={styles.textButton} onClick={() => updateGraph({ vertices: [], edges: [] })}>
+          Clear
+        </button>
+        <button className={styles.textButton} onClick={() => updateGraph(initialGraph)}>
+          Restore example
+        </button>
+      </div>
+      <p className={styles.hint}>{MODES.find((m) => m.mode === mode)?.hint}</p>
+
+      <div className={styles.body}>
+        <svg
+          ref={svgRef}
+          className={`${styles.canvas} ${mode === 'vertex' ? styles.addCursor : ''}`}
+          viewBox={`0 0 ${CANVAS_WIDTH} ${CANVAS_HEIGHT}`}
+          onPointerDown={handleCanvasClick}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+          onPointerLeave={handlePointerUp}
+          role="img"
+          aria-label="Editable weighted graph"
+        >
+          {graph.edges.map((edge, index) => {
+            const from = vertexById.get(edge.from);
+            const to = vertexById.get(edge.to);
+            if (!from || !to) {
+              return null;
+            }
+            const midX = (from.x + to.x) / 2;
+            const midY = (from.y + to.y) / 2;
+            return (
+              <g key={index} className={edgeClassName(index)} onClick={(e) => handleEdgeClick(e, index)}>
+                <line x1={from.x} y1={from.y} x2={to.x} y2={to.y} className={styles.edgeHitArea} />
+                <line x1={from.x} y1={from.y} x2={to.x} y2={to.y} className={styles.edgeLine} />
+                <rect x={midX - 14} y={midY - 10} width={28} height={20} rx={4} className={styles.weightBox} />
+                <text x={midX} y={midY} className={styles.weightText}>{edge.weight}</text>
+              </g>
+            );
+          })}
+          {graph.vertices.map((vertex) => (
+            <g
+              key={vertex.id}
+              className={vertexClassName(vertex.id)}
+              onPointerDown={(e) => handleVertexDown(e, vertex.id)}
+            >
+              <circle cx={vertex.x} cy={vertex.y} r={VERTEX_RADIUS} />
+              <text x={vertex.x} y={vertex.y}>{vertex.id}</text>
+            </g>
+          ))}
+        </svg>
+
+        <div className={styles.panel}>
+          <div className={styles.algorithmPicker}>
+            <select
+              value={algorithm}
+              onChange={(e) => {
+                setAlgorithm(e.target.value as MstAlgorithm);
+                setStepIndex(0);
+                setIsPlaying(false);
+              }}
+              aria-label="Algorithm"
+            >
+              <option value="kruskal">Kruskal</option>
+              <option value="prim">Prim</option>
+            </select>
+            {algorithm === 'prim' && (
+              <label className={styles.field}>
+                Start
+                <select
+                  value={startVertex}
+                  onChange={(e) => {
+                    setStartVertex(e.target.value);
+                    setStepIndex(0);
+                    setIsPlaying(false);
+                  }}
+                >
+                  {graph.vertices.map((vertex) => (
+                    <option key={vertex.id} value={vertex.id}>{vertex.id}</option>
+                  ))}
+                </select>
+              </label>
+            )}
+          </div>
+
+          <div className={styles.total}>
+            Total weight <strong>{step.totalWeight}</strong>
+          </div>
+          <p className={styles.description} aria-live="polite">{step.description}</p>
+
+          {algorithm === 'prim' && step.queue && (
+            <div className={styles.structure}>
+              <span className={styles.structureTitle}>Priority queue</span>
+              {step.queue.length === 0 ? (
+                <span className={styles.empty}>empty</span>
+              ) : (
+                <ol className={styles.queue}>
+                  {step.queue.map((entry) => (
+                    <li key={`${entry.edge}-${entry.to}`}>
+                      <strong>{entry.weight}</strong> {entry.from}–{entry.to}
+                    </li>
+                  ))}
+                </ol>
+              )}
+            </div>
+          )}
+
+          {algorithm === 'kruskal' && step.parent && (
+            <>
+              <div className={styles.structure}>
+                <span className={styles.structureTitle}>Union-find forest</span>
+                <UnionFindForest parent={step.parent} />
+              </div>
+              <div className={styles.structure}>
+                <span className={styles.structureTitle}>Edges by weight</span>
+                <ol className={styles.queue}>
+                  {step.order?.map((index) => (
+                    <li
+                      key={index}
+                      className={
+                        step.current === index
+                          ? styles.currentItem
+                          : step.accepted.includes(index)
+                            ? styles.acceptedItem
+                            : step.rejected.includes(index)
+                              ? styles.rejectedItem
+                              : undefined
+                      }
+                    >
+                      {edgeLabel(index)}
+                    </li>
+                  ))}
+                </ol>
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+
+      <div className={styles.controls}>
+        <button className={styles.button} onClick={() => { setIsPlaying(false); setStepIndex(0); }} disabled={stepIndex === 0} title="Reset" aria-label="Reset">
+          <svg viewBox="0 0 24 24" className={styles.icon}>
+            <path d="M6 6h2v12H6zm3.5 6 8.5 6V6z"/>
+          </svg>
+        </button>
+        <button className={styles.button} onClick={() => { setIsPlaying(false); setStepIndex(Math.max(stepIndex - 1, 0)); }} disabled={stepIndex === 0} title="Step back" aria-label="Step back">
+          <svg viewBox="0 0 24 24" className={styles.icon}>
+            <path d="M15.41 7.41 14 6l-6 6 6 6 1.41-1.41L10.83 12z"/>
+          </svg>
+        </button>
+        <button
+          className={`${styles.button} ${styles.playButton}`}
+          onClick={() => {
+            if (isFinished) {
+              setStepIndex(0);
+            }
+            setIsPlaying(!isPlaying);
+          }}
+          title={isPlaying ? 'Pause' : 'Play'}
+          aria-label={isPlaying ? 'Pause' : 'Play'}
+        >
+          {isPlaying ? (
+            <svg viewBox="0 0 24 24" className={styles.icon}>
+              <path d="M6 19h4V5H6v14zm8-14v14h4V5h-4z"/>
+            </svg>
+          ) : (
+            <svg viewBox="0 0 24 24" className={styles.icon}>
+              <path d="M8 5v14l11-7z"/>
+            </svg>
+          )}
+        </button>
+        <button className={styles.button} onClick={() => { setIsPlaying(false); setStepIndex(Math.min(stepIndex + 1, steps.length - 1)); }} disabled={isFinished} title="Step forward" aria-label="Step forward">
+          <svg viewBox="0 0 24 24" className={styles.icon}>
+            <path d="M10 6 8.59 7.41 13.17 12l-4.58 4.59L10 18l6-6z"/>
+          </svg>
+        </button>
+        <span className={styles.progress}>
+          Step {stepIndex + 1} / {steps.length}
+        </span>
+      </div>
+
+      <details className={styles.jsonPanel}>
+        <summary>Import / export JSON</summary>
+        <textarea
+          className={styles.jsonInput}
+          value={json}
+          onChange={(e) => setJson(e.target.value)}
+          spellCheck={false}
+          aria-label="Graph JSON"
+        />
+        <div className={styles.jsonActions}>
+          <button className={styles.textButton} onClick={() => importJson(json)}>
+            Load from text
+          </button>
+          <button className={styles.textButton} onClick={() => fileInputRef.current?.click()}>
+            Open file
+          </button>
+          <button className={styles.textButton} onClick={downloadJson}>
+            Download graph.json
+          </button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="application/json,.json"
+            onChange={handleFileImport}
+            hidden
+          />
+        </div>
+        {jsonError && <span className={styles.error}>{jsonError}</span>}
+      </details>
+    </div>
+  );
+};
+
+export default GraphPlayground;
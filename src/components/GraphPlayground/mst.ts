@@ -0,0 +1,168 @@
+import type { Graph } from './graph';
+
+export type MstAlgorithm = 'prim' | 'kruskal';
+
+export interface QueueEntry {
+  edge: number;
+  weight: number;
+  from: string;
+  to: string;
+}
+
+export interface MstStep {
+  description: string;
+  // Edges are referenced by their index in graph.edges
+  current?: number;
+  accepted: number[];
+  rejected: number[];
+  totalWeight: number;
+  // Prim only
+  inTree?: string[];
+  queue?: QueueEntry[];
+  // Kruskal only
+  order?: number[];
+  parent?: Record<string, string>;
+}
+
+function primSteps(graph: Graph, start: string): MstStep[] {
+  const steps: MstStep[] = [];
+  const accepted: number[] = [];
+  const rejected: number[] = [];
+  const inTree = new Set<string>();
+  let queue: QueueEntry[] = [];
+  let totalWeight = 0;
+
+  const record = (description: string, current?: number) => {
+    steps.push({
+      description,
+      current,
+      accepted: [...accepted],
+      rejected: [...rejected],
+      totalWeight,
+      inTree: [...inTree],
+      queue: [...queue],
+    });
+  };
+
+  const visit = (vertex: string) => {
+    inTree.add(vertex);
+    graph.edges.forEach((edge, index) => {
+      const other = edge.from === vertex ? edge.to : edge.to === vertex ? edge.from : null;
+      if (other !== null && !inTree.has(other)) {
+        queue.push({ edge: index, weight: edge.weight, from: vertex, to: other });
+      }
+    });
+    // A real implementation uses a binary heap; a sorted list shows the same order
+    queue = queue.sort((a, b) => a.weight - b.weight || a.edge - b.edge);
+  };
+
+  record(`Start Prim's algorithm from vertex ${start}`);
+  visit(start);
+  record(`Add ${start} to the tree and push its edges onto the priority queue`);
+
+  while (queue.length > 0 && inTree.size < graph.vertices.length) {
+    const entry = queue.shift() as QueueEntry;
+    const label = `${entry.from}–${entry.to} (${entry.weight})`;
+    if (inTree.has(entry.to)) {
+      rejected.push(entry.edge);
+      record(`Pop ${label}: ${entry.to} is already in the tree, discard it`, entry.edge);
+      continue;
+    }
+    record(`Pop the cheapest edge ${label}`, entry.edge);
+    accepted.push(entry.edge);
+    totalWeight += entry.weight;
+    visit(entry.to);
+    record(`Add ${entry.to} via ${label} and push its edges`, entry.edge);
+  }
+
+  if (inTree.size < graph.vertices.length) {
+    record(`Queue is empty but ${graph.vertices.length - inTree.size} vertices are unreachable - the graph is not connected`);
+  } else {
+    record(`All ${graph.vertices.length} vertices are in the tree - MST weight ${totalWeight}`);
+  }
+  return steps;
+}
+
+function kruskalSteps(graph: Graph): MstStep[] {
+  const steps: MstStep[] = [];
+  const accepted: number[] = [];
+  const rejected: number[] = [];
+  const parent: Record<string, string> = {};
+  const size: Record<string, number> = {};
+  let totalWeight = 0;
+
+  graph.vertices.forEach(({ id }) => {
+    parent[id] = id;
+    size[id] = 1;
+  });
+
+  const order = graph.edges
+    .map((_, index) => index)
+    .sort((a, b) => graph.edges[a].weight - graph.edges[b].weight || a - b);
+
+  // No path compression, so the union-find forest stays readable step by step
+  const find = (vertex: string): string => {
+    let root = vertex;
+    while (parent[root] !== root) {
+      root = parent[root];
+    }
+    return root;
+  };
+
+  const record = (description: string, current?: number) => {
+    steps.push({
+      description,
+      current,
+      accepted: [...accepted],
+      rejected: [...rejected],
+      totalWeight,
+      order,
+      parent: { ...parent },
+    });
+  };
+
+  record('Sort edges by weight; every vertex starts as its own tree');
+
+  for (const index of order) {
+    if (accepted.length === graph.vertices.length - 1) {
+      break;
+    }
+    const edge = graph.edges[index];
+    const label = `${edge.from}–${edge.to} (${edge.weight})`;
+    const rootFrom = find(edge.from);
+    const rootTo = find(edge.to);
+    record(`Consider ${label}: find(${edge.from}) = ${rootFrom}, find(${edge.to}) = ${rootTo}`, index);
+
+    if (rootFrom === rootTo) {
+      rejected.push(index);
+      record(`${label} would form a cycle - skip it`, index);
+      continue;
+    }
+
+    // Union by size: hang the smaller tree below the larger root
+    const [small, large] = size[rootFrom] < size[rootTo] ? [rootFrom, rootTo] : [rootTo, rootFrom];
+    parent[small] = large;
+    size[large] += size[small];
+    accepted.push(index);
+    totalWeight += edge.weight;
+    record(`Accept ${label} and union the trees under ${large}`, index);
+  }
+
+  if (accepted.length < graph.vertices.length - 1) {
+    record(`Only ${accepted.length} of ${graph.vertices.length - 1} edges fit - the graph is not connected, this is a spanning forest`);
+  } else {
+    record(`${accepted.length} edges accepted - MST weight ${totalWeight}`);
+  }
+  return steps;
+}
+
+export function generateMstSteps(graph: Graph, algorithm: MstAlgorithm, start?: string): MstStep[] {
+  if (graph.vertices.length === 0) {
+    return [{ description: 'Add some vertices to get started', accepted: [], rejected: [], totalWeight: 0 }];
+  }
+  if (algorithm === 'prim') {
+    const startVertex = graph.vertices.some((vertex) => vertex.id === start) ? start : graph.vertices[0].id;
+    return primSteps(graph, startVertex as string);
+  }
+  return kruskalSteps(graph);
+}
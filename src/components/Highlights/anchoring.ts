@@ -0,0 +1,131 @@
+// Highlights are stored as the quoted text plus some context around it, so they can
+// be found again after navigation or when the surrounding content has been edited
+
+const CONTEXT_LENGTH = 32;
+const MAX_CANDIDATES = 500;
+
+export interface TextAnchor {
+  exact: string;
+  prefix: string;
+  suffix: string;
+  // Where the quote started when it was created, only used to break ties
+  start: number;
+}
+
+export interface TextSpan {
+  start: number;
+  end: number;
+}
+
+export function describeSpan(text: string, { start, end }: TextSpan): TextAnchor {
+  return {
+    exact: text.slice(start, end),
+    prefix: text.slice(Math.max(0, start - CONTEXT_LENGTH), start),
+    suffix: text.slice(end, end + CONTEXT_LENGTH),
+    start,
+  };
+}
+
+function occurrences(text: string, search: string): number[] {
+  const found: number[] = [];
+  if (!search) {
+    return found;
+  }
+  for (let index = text.indexOf(search); index !== -1 && found.length < MAX_CANDIDATES; index = text.indexOf(search, index + 1)) {
+    found.push(index);
+  }
+  return found;
+}
+
+// Number of matching characters when reading both strings backwards
+function sharedEnding(a: string, b: string): number {
+  let length = 0;
+  while (length < a.length && length < b.length && a[a.length - 1 - length] === b[b.length - 1 - length]) {
+    length++;
+  }
+  return length;
+}
+
+function sharedBeginning(a: string, b: string): number {
+  let length = 0;
+  while (length < a.length && length < b.length && a[length] === b[length]) {
+    length++;
+  }
+  return length;
+}
+
+function pickClosest<T extends { score: number; start: number }>(candidates: T[], start: number): T | null {
+  let best: T | null = null;
+  for (const candidate of candidates) {
+    if (
+      !best ||
+      candidate.score > best.score ||
+      (candidate.score === best.score && Math.abs(candidate.start - start) < Math.abs(best.start - start))
+    ) {
+      best = candidate;
+    }
+  }
+  return best;
+}
+
+export function locateAnchor(text: string, anchor: TextAnchor): TextSpan | null {
+  // The quote itself is intact: prefer the occurrence whose context matches best
+  const exact = pickClosest(
+    occurrences(text, anchor.exact).map((start) => ({
+      start,
+      score:
+        sharedEnding(text.slice(Math.max(0, start - CONTEXT_LENGTH), start), anchor.prefix) +
+        sharedBeginning(text.slice(start + anchor.exact.length), anchor.suffix),
+    })),
+    anchor.start,
+  );
+  if (exact) {
+    return { start: exact.start, end: exact.start + anchor.exact.length };
+  }
+
+  // The quote was edited: look for its old context with roughly the same amount of text in between
+  if (anchor.prefix.length < 8 || anchor.suffix.length < 8) {
+    return null;
+  }
+  const suffixStarts = occurrences(text, anchor.suffix);
+  const spans = occurrences(text, anchor.prefix).flatMap((prefixStart) => {
+    const start = prefixStart + anchor.prefix.length;
+    const end = suffixStarts.find((suffixStart) => suffixStart > start);
+    if (end === undefined) {
+      return [];
+    }
+    const drift = Math.abs(end - start - anchor.exact.length);
+    return drift <= Math.max(10, anchor.exact.length / 2) ? [{ start, end, score: -drift }] : [];
+  });
+  const edited = pickClosest(spans, anchor.start);
+  return edited && { start: edited.start, end: edited.end };
+}
+
+export function textOffset(root: Node, container: Node, offset: number): number {
+  const range = document.createRange();
+  range.setStart(root, 0);
+  range.setEnd(container, offset);
+  return range.toString().length;
+}
+
+// Turns character offsets in the text of root back into a DOM range
+export function spanToRange(root: Node, { start, end }: TextSpan): Range | null {
+  const walker = document.createTreeWalker(root, NodeFilter.SHOW_TEXT);
+  const range = document.createRange();
+  let position = 0;
+  let startFound = false;
+
+  for (let node = walker.nextNode(); node; node = walker.nextNode()) {
+    const length = node.nodeValue?.length ?? 0;
+    if (!startFound && start < position + length) {
+      range.setStart(node, start - position);
+      startFound = true;
+    }
+    if (startFound && end <= position + length) {
+      range.setEnd(node, end - position);
+      return range;
+    }
+    position += length;
+  }
+  return null;
+}
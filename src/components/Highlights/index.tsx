@@ -0,0 +1,310 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { createPortal } from 'react-dom';
+import Link from '@docusaurus/Link';
+import { ThemeClassNames } from '@docusaurus/theme-common';
+import { describeSpan, locateAnchor, spanToRange, textOffset, type TextSpan } from './anchoring';
+import {
+  HIGHLIGHT_COLORS,
+  addHighlight,
+  removeHighlight,
+  updateHighlight,
+  useHighlights,
+  type HighlightColor,
+} from './useHighlights';
+import styles from './Highlights.module.css';
+
+interface DocHighlightsProps {
+  docId: string;
+  docTitle: string;
+  permalink: string;
+}
+
+interface PopoverPosition {
+  top: number;
+  left: number;
+  below: boolean;
+}
+
+type PopoverState =
+  | { kind: 'selection'; span: TextSpan; position: PopoverPosition }
+  | { kind: 'highlight'; id: string; position: PopoverPosition };
+
+interface HighlightPopoverProps {
+  position: PopoverPosition;
+  color?: HighlightColor;
+  note: string;
+  onColor: (color: HighlightColor) => void;
+  onSaveNote: (note: string) => void;
+  onDelete?: () => void;
+}
+
+// Registered as CSS highlights, styled with ::highlight() in custom.css
+const NOTE_HIGHLIGHT = 'hl-note';
+const HIGHLIGHT_NAMES = [...HIGHLIGHT_COLORS.map((color) => `hl-${color}`), NOTE_HIGHLIGHT];
+
+function supportsHighlights(): boolean {
+  return typeof CSS !== 'undefined' && 'highlights' in CSS && typeof Highlight !== 'undefined';
+}
+
+// The DOM typings of our TypeScript version leave out the Map methods of the registry
+function highlightRegistry(): Map<string, Highlight> {
+  return CSS.highlights as unknown as Map<string, Highlight>;
+}
+
+function positionFor(rect: DOMRect): PopoverPosition {
+  // Flip below the text when there is no room above it
+  const below = rect.top < 80;
+  return {
+    top: (below ? rect.bottom + 8 : rect.top - 8) + window.scrollY,
+    left: rect.left + rect.width / 2 + window.scrollX,
+    below,
+  };
+}
+
+const HighlightPopover = React.forwardRef<HTMLDivElement, HighlightPopoverProps>(
+  ({ position, color, note, onColor, onSaveNote, onDelete }, ref) => {
+    const [isEditing, setIsEditing] = useState(false);
+    const [draft, setDraft] = useState(note);
+
+    return createPortal(
+      <div
+        ref={ref}
+        className={`${styles.popover} ${position.below ? styles.below : ''}`}
+        style={{ top: position.top, left: position.left }}
+        role="dialog"
+        aria-label={onDelete ? 'Edit highlight' : 'Highlight selection'}
+      >
+        {isEditing ? (
+          <div className={styles.noteEditor}>
+            <textarea
+              className={styles.noteInput}
+              value={draft}
+              onChange={(e) => setDraft(e.target.value)}
+              placeholder="Write a note…"
+              rows={3}
+              autoFocus
+            />
+            <div className={styles.row}>
+              <button className={styles.textButton} onClick={() => setIsEditing(false)}>
+                Cancel
+              </button>
+              <button className={styles.saveButton} onClick={() => onSaveNote(draft.trim())}>
+                Save note
+              </button>
+            </div>
+          </div>
+        ) : (
+          <>
+            {/* Keep the text selection alive while the buttons are pressed */}
+            <div className={styles.row} onMouseDown={(e) => e.preventDefault()}>
+              {HIGHLIGHT_COLORS.map((option) => (
+                <button
+                  key={option}
+                  className={`${styles.swatch} ${styles[option]} ${option === color ? styles.activeSwatch : ''}`}
+                  onClick={() => onColor(option)}
+                  aria-label={`Highlight ${option}`}
+                  aria-pressed={option === color}
+                />
+              ))}
+              <button className={styles.textButton} onClick={() => setIsEditing(true)}>
+                {note ? 'Edit note' : 'Add note'}
+              </button>
+              {onDelete && (
+                <button className={styles.textButton} onClick={onDelete} aria-label="Remove highlight">
+                  Remove
+                </button>
+              )}
+            </div>
+            {note && <p className={styles.note}>{note}</p>}
+            {onDelete && (
+              <Link to="/notes" className={styles.notesLink}>
+                All my notes →
+              </Link>
+            )}
+          </>
+        )}
+      </div>,
+      document.body,
+    );
+  },
+);
+
+const DocHighlights: React.FC<DocHighlightsProps> = ({ docId, docTitle, permalink }) => {
+  const highlights = useHighlights();
+  const [root, setRoot] = useState<HTMLElement | null>(null);
+  const [contentVersion, setContentVersion] = useState(0);
+  const [popover, setPopover] = useState<PopoverState | null>(null);
+  const rangesRef = useRef(new Map<string, Range>());
+  const popoverRef = useRef<HTMLDivElement>(null);
+
+  const docHighlights = highlights.filter((highlight) => highlight.docId === docId);
+
+  // The doc content is rendered by the theme, outside of this component
+  useEffect(() => {
+    if (!supportsHighlights()) {
+      return;
+    }
+    const markdown = document.querySelector<HTMLElement>(`article .${ThemeClassNames.docs.docMarkdown}`);
+    setRoot(markdown);
+    setPopover(null);
+    if (!markdown) {
+      return;
+    }
+
+    // Interactive components and lazy content change the text, so anchor again after they settle
+    let timeout: ReturnType<typeof setTimeout>;
+    const observer = new MutationObserver(() => {
+      clearTimeout(timeout);
+      timeout = setTimeout(() => setContentVersion((version) => version + 1), 200);
+    });
+    observer.observe(markdown, { childList: true, subtree: true, characterData: true });
+    return () => {
+      clearTimeout(timeout);
+      observer.disconnect();
+    };
+  }, [docId]);
+
+  useEffect(() => {
+    if (!root) {
+      return;
+    }
+    const text = root.textContent ?? '';
+    const ranges = new Map<string, Range>();
+    const byName = new Map<string, Range[]>(HIGHLIGHT_NAMES.map((name) => [name, []]));
+
+    for (const highlight of highlights.filter((candidate) => candidate.docId === docId)) {
+      const span = locateAnchor(text, highlight);
+      const range = span && spanToRange(root, span);
+      if (!range) {
+        // Left out until the passage is back, the notes page still lists it
+        continue;
+      }
+      ranges.set(highlight.id, range);
+      byName.get(`hl-${highlight.color}`)?.push(range);
+      if (highlight.note) {
+        byName.get(NOTE_HIGHLIGHT)?.push(range);
+      }
+    }
+
+    rangesRef.current = ranges;
+    byName.forEach((namedRanges, name) => highlightRegistry().set(name, new Highlight(...namedRanges)));
+    return () => HIGHLIGHT_NAMES.forEach((name) => highlightRegistry().delete(name));
+  }, [root, highlights, docId, contentVersion]);
+
+  useEffect(() => {
+    if (!root) {
+      return;
+    }
+
+    const handleSelectionEnd = (event: MouseEvent | KeyboardEvent | TouchEvent) => {
+      if (popoverRef.current?.contains(event.target as Node)) {
+        return;
+      }
+      const selection = window.getSelection();
+      if (selection && !selection.isCollapsed && selection.rangeCount > 0) {
+        const range = selection.getRangeAt(0);
+        const start = range.startContainer.parentElement;
+        // Selections in inputs of interactive components are not highlightable text
+        if (!root.contains(range.commonAncestorContainer) || start?.closest('input, textarea, select, button')) {
+          return;
+        }
+        if (range.toString().trim()) {
+          setPopover({
+            kind: 'selection',
+            span: {
+              start: textOffset(root, range.startContainer, range.startOffset),
+              end: textOffset(root, range.endContainer, range.endOffset),
+            },
+            position: positionFor(range.getBoundingClientRect()),
+          });
+        }
+        return;
+      }
+
+      // A plain click on highlighted text opens that highlight
+      if (event instanceof MouseEvent) {
+        for (const [id, range] of rangesRef.current) {
+          const rect = Array.from(range.getClientRects()).find(
+            (r) => event.clientX >= r.left && event.clientX <= r.right && event.clientY >= r.top && event.clientY <= r.bottom,
+          );
+          if (rect) {
+            setPopover({ kind: 'highlight', id, position: positionFor(rect) });
+            return;
+          }
+        }
+      }
+      setPopover(null);
+    };
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') {
+        setPopover(null);
+      }
+    };
+
+    document.addEventListener('mouseup', handleSelectionEnd);
+    document.addEventListener('keyup', handleSelectionEnd);
+    document.addEventListener('touchend', handleSelectionEnd);
+    document.addEventListener('keydown', handleKeyDown);
+    return () => {
+      document.removeEventListener('mouseup', handleSelectionEnd);
+      document.removeEventListener('keyup', handleSelectionEnd);
+      document.removeEventListener('touchend', handleSelectionEnd);
+      document.removeEventListener('keydown', handleKeyDown);
+    };
+  }, [root]);
+
+  if (!popover || !root) {
+    return null;
+  }
+
+  const close = () => {
+    window.getSelection()?.removeAllRanges();
+    setPopover(null);
+  };
+
+  if (popover.kind === 'selection') {
+    const create = (color: HighlightColor, note: string) => {
+      addHighlight({ ...describeSpan(root.textContent ?? '', popover.span), docId, docTitle, permalink, color, note });
+      close();
+    };
+    return (
+      <HighlightPopover
+        key={`${popover.span.start}-${popover.span.end}`}
+        ref={popoverRef}
+        position={popover.position}
+        note=""
+        onColor={(color) => create(color, '')}
+        onSaveNote={(note) => create('yellow', note)}
+      />
+    );
+  }
+
+  const highlight = docHighlights.find((candidate) => candidate.id === popover.id);
+  if (!highlight) {
+    return null;
+  }
+  return (
+    <HighlightPopover
+      key={highlight.id}
+      ref={popoverRef}
+      position={popover.position}
+      color={highlight.color}
+      note={highlight.note}
+      onColor={(color) => {
+        updateHighlight(highlight.id, { color });
+        close();
+      }}
+      onSaveNote={(note) => {
+        updateHighlight(highlight.id, { note });
+        close();
+      }}
+      onDelete={() => {
+        removeHighlight(highlight.id);
+        close();
+      }}
+    />
+  );
+};
+
+export default DocHighlights;
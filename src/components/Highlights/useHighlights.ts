@@ -0,0 +1,91 @@
+import { createPersistentStore, usePersistentStore } from '../../utils/persistentStore';
+import type { TextAnchor } from './anchoring';
+
+export const HIGHLIGHT_COLORS = ['yellow', 'green', 'blue', 'pink'] as const;
+export type HighlightColor = (typeof HIGHLIGHT_COLORS)[number];
+
+export interface Highlight extends TextAnchor {
+  id: string;
+  docId: string;
+  docTitle: string;
+  permalink: string;
+  color: HighlightColor;
+  note: string;
+  createdAt: string;
+}
+
+function isHighlight(value: unknown): value is Highlight {
+  const candidate = value as Partial<Highlight> | null;
+  return (
+    typeof candidate === 'object' &&
+    candidate !== null &&
+    typeof candidate.id === 'string' &&
+    typeof candidate.docId === 'string' &&
+    typeof candidate.docTitle === 'string' &&
+    typeof candidate.permalink === 'string' &&
+    HIGHLIGHT_COLORS.includes(candidate.color as HighlightColor) &&
+    typeof candidate.note === 'string' &&
+    typeof candidate.createdAt === 'string' &&
+    typeof candidate.exact === 'string' &&
+    typeof candidate.prefix === 'string' &&
+    typeof candidate.suffix === 'string' &&
+    typeof candidate.start === 'number'
+  );
+}
+
+// Every doc page and the notes page subscribe here
+const highlightsStore = createPersistentStore<Highlight[]>(
+  'doc-highlights',
+  (stored) => {
+    const highlights: unknown = JSON.parse(stored);
+    // A malformed entry would break anchoring on every doc page, so only it is dropped
+    return Array.isArray(highlights) ? highlights.filter(isHighlight) : null;
+  },
+  [],
+);
+
+export function addHighlight(highlight: Omit<Highlight, 'id' | 'createdAt'>): Highlight {
+  const created: Highlight = {
+    ...highlight,
+    id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+    createdAt: new Date().toISOString(),
+  };
+  highlightsStore.write([...highlightsStore.read(), created]);
+  return created;
+}
+
+export function updateHighlight(id: string, changes: Partial<Pick<Highlight, 'color' | 'note'>>) {
+  highlightsStore.write(highlightsStore.read().map((highlight) => (highlight.id === id ? { ...highlight, ...changes } : highlight)));
+}
+
+export function removeHighlight(id: string) {
+  highlightsStore.write(highlightsStore.read().filter((highlight) => highlight.id !== id));
+}
+
+export function useHighlights(): Highlight[] {
+  return usePersistentStore(highlightsStore);
+}
+
+export function toMarkdown(highlights: Highlight[], siteUrl: string): string {
+  const lines = ['# My notes', ''];
+  for (const [, docHighlights] of groupByDoc(highlights)) {
+    const { docTitle, permalink } = docHighlights[0];
+    lines.push(`## [${docTitle}](${siteUrl}${permalink})`, '');
+    for (const highlight of docHighlights) {
+      lines.push(...highlight.exact.trim().split('\n').map((line) => `> ${line}`), '');
+      if (highlight.note.trim()) {
+        lines.push(highlight.note.trim(), '');
+      }
+    }
+  }
+  return lines.join('\n');
+}
+
+// Groups by doc in the order docs were first highlighted, highlights in reading order
+export function groupByDoc(highlights: Highlight[]): [string, Highlight[]][] {
+  const groups = new Map<string, Highlight[]>();
+  for (const highlight of highlights) {
+    groups.set(highlight.docId, [...(groups.get(highlight.docId) ?? []), highlight]);
+  }
+  return [...groups].map(([docId, docHighlights]) => [docId, docHighlights.sort((a, b) => a.start - b.start)]);
+}
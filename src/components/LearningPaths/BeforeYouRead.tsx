@@ -0,0 +1,59 @@
+import React, { useEffect } from 'react';
+import Link from '@docusaurus/Link';
+import { formatReadingTime } from '../DocMeta/docMeta';
+import { useLearningProgress } from '../LearningProgress/useLearningProgress';
+import { useLearningPathsData, type GraphDoc } from './learningPaths';
+import { markDocVisited, useVisitedDocs } from './useVisitedDocs';
+import styles from './LearningPaths.module.css';
+
+interface BeforeYouReadProps {
+  docId: string;
+  className?: string;
+}
+
+// Lists the doc's prerequisites the reader has neither opened nor completed, and records this visit
+const BeforeYouRead: React.FC<BeforeYouReadProps> = ({ docId, className }) => {
+  const { docs } = useLearningPathsData();
+  const visited = useVisitedDocs();
+  const completed = useLearningProgress();
+
+  useEffect(() => {
+    markDocVisited(docId);
+  }, [docId]);
+
+  const doc = docs.find((candidate) => candidate.id === docId);
+  if (!doc || !visited) {
+    return null;
+  }
+  const unmet = doc.prerequisites
+    .filter((id) => !visited[id] && !completed[id])
+    .map((id) => docs.find((candidate) => candidate.id === id))
+    .filter((prerequisite): prerequisite is GraphDoc => !!prerequisite);
+  if (unmet.length === 0) {
+    return null;
+  }
+
+  return (
+    <aside className={`alert alert--info ${styles.beforeYouRead} ${className || ''}`}>
+      <div className={styles.beforeTitle}>Before you read</div>
+      <p className={styles.beforeText}>
+        This page builds on {unmet.length === 1 ? 'a doc' : 'docs'} you haven't opened yet:
+      </p>
+      <ul className={styles.beforeList}>
+        {unmet.map((prerequisite) => (
+          <li key={prerequisite.id}>
+            <Link to={prerequisite.permalink}>{prerequisite.title}</Link>
+            {prerequisite.readingTime !== undefined && (
+              <span className={styles.beforeMeta}> · {formatReadingTime(prerequisite.readingTime)}</span>
+            )}
+          </li>
+        ))}
+      </ul>
+      <Link to="/paths" className={styles.beforeMore}>
+        See how all docs connect →
+      </Link>
+    </aside>
+  );
+};
+
+export default BeforeYouRead;
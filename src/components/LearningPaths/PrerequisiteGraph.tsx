@@ -0,0 +1,224 @@
+import React, { useMemo, useState } from 'react';
+import { useHistory } from '@docusaurus/router';
+import { formatReadingTime } from '../DocMeta/docMeta';
+import { useLearningProgress } from '../LearningProgress/useLearningProgress';
+import { collectDependents, collectPrerequisites, type GraphDoc, type LearningPathConfig } from './learningPaths';
+import { useVisitedDocs } from './useVisitedDocs';
+import styles from './LearningPaths.module.css';
+
+const NODE_WIDTH = 200;
+const NODE_HEIGHT = 64;
+const COLUMN_GAP = 72;
+const ROW_GAP = 16;
+const PADDING = 12;
+const LINE_LENGTH = 26;
+
+interface PrerequisiteGraphProps {
+  docs: GraphDoc[];
+  // Numbers the path's docs and dims the rest
+  highlightedPath?: LearningPathConfig | null;
+  className?: string;
+}
+
+interface PositionedDoc extends GraphDoc {
+  x: number;
+  y: number;
+}
+
+// One column per prerequisite depth; within a column, docs sit near the docs they build on
+function layout(docs: GraphDoc[]): PositionedDoc[] {
+  const columns: GraphDoc[][] = [];
+  docs.forEach((doc) => {
+    (columns[doc.depth] ??= []).push(doc);
+  });
+
+  const rows = new Map<string, number>();
+  const positioned: PositionedDoc[] = [];
+  columns.forEach((column, depth) => {
+    const weight = (doc: GraphDoc) =>
+      doc.prerequisites.reduce((sum, id) => sum + (rows.get(id) ?? 0), 0) / Math.max(doc.prerequisites.length, 1);
+    const ordered = depth === 0 ? column : [...column].sort((a, b) => weight(a) - weight(b));
+    let nextRow = 0;
+    ordered.forEach((doc) => {
+      const row = depth === 0 ? nextRow : Math.max(nextRow, Math.round(weight(doc)));
+      nextRow = row + 1;
+      rows.set(doc.id, row);
+      positioned.push({
+        ...doc,
+        x: PADDING + depth * (NODE_WIDTH + COLUMN_GAP),
+        y: PADDING + row * (NODE_HEIGHT + ROW_GAP),
+      });
+    });
+  });
+  return positioned;
+}
+
+// Up to two lines, cut at a word boundary; subtitles after a colon are dropped
+function wrapTitle(title: string): string[] {
+  const words = title.split(':')[0].split(/\s+/);
+  const lines: string[] = [''];
+  for (const word of words) {
+    const line = lines[lines.length - 1];
+    if (!line || line.length + word.length + 1 <= LINE_LENGTH) {
+      lines[lines.length - 1] = line ? `${line} ${word}` : word;
+    } else if (lines.length < 2) {
+      lines.push(word);
+    } else {
+      lines[1] = `${lines[1].slice(0, LINE_LENGTH - 1)}…`;
+      break;
+    }
+  }
+  return lines;
+}
+
+function edgePath(from: PositionedDoc, to: PositionedDoc): string {
+  const x1 = from.x + NODE_WIDTH;
+  const y1 = from.y + NODE_HEIGHT / 2;
+  const x2 = to.x;
+  const y2 = to.y + NODE_HEIGHT / 2;
+  const bend = COLUMN_GAP / 2;
+  return `M ${x1} ${y1} C ${x1 + bend} ${y1}, ${x2 - bend} ${y2}, ${x2} ${y2}`;
+}
+
+const PrerequisiteGraph: React.FC<PrerequisiteGraphProps> = ({ docs, highlightedPath, className }) => {
+  const history = useHistory();
+  const completed = useLearningProgress();
+  const visited = useVisitedDocs() ?? {};
+  const [activeId, setActiveId] = useState<string | null>(null);
+
+  const nodes = useMemo(() => layout(docs), [docs]);
+  const byId = useMemo(() => new Map(nodes.map((node) => [node.id, node])), [nodes]);
+  const sections = useMemo(() => [...new Set(docs.map((doc) => doc.section))], [docs]);
+
+  // Hovering a doc wins over the highlighted path
+  const focus = useMemo(() => {
+    if (activeId) {
+      const graph = new Map<string, GraphDoc>(byId);
+      return new Set([activeId, ...collectPrerequisites(activeId, graph), ...collectDependents(activeId, graph)]);
+    }
+    return highlightedPath ? new Set(highlightedPath.docs) : null;
+  }, [activeId, byId, highlightedPath]);
+
+  const width = PADDING * 2 + Math.max(...nodes.map((node) => node.x + NODE_WIDTH - PADDING), 0);
+  const height = PADDING * 2 + Math.max(...nodes.map((node) => node.y + NODE_HEIGHT - PADDING), 0);
+
+  const statusOf = (id: string) => (completed[id] ? 'completed' : visited[id] ? 'visited' : 'unread');
+
+  return (
+    <div className={className}>
+      <div className={styles.legend}>
+        {sections.map((section, i) => (
+          <span key={section} className={styles.legendItem}>
+            <span className={`${styles.swatch} ${styles[`section${i % 4}`]}`} />
+            {section}
+          </span>
+        ))}
+        <span className={styles.legendItem}>
+          <span className={`${styles.statusDot} ${styles.visited}`} />
+          Opened
+        </span>
+        <span className={styles.legendItem}>
+          <span className={`${styles.statusDot} ${styles.completed}`} />
+          Completed
+        </span>
+      </div>
+
+      <div className={styles.graphScroll}>
+        <svg
+          className={styles.graph}
+          width={width}
+          height={height}
+          viewBox={`0 0 ${width} ${height}`}
+          role="img"
+          aria-label="Prerequisite graph of all docs">
+          <defs>
+            <marker id="prerequisite-arrow" viewBox="0 0 8 8" refX="7" refY="4" markerWidth="8" markerHeight="8" orient="auto">
+              <path d="M 0 0 L 8 4 L 0 8 z" className={styles.arrow} />
+            </marker>
+          </defs>
+
+          {nodes.flatMap((node) =>
+            node.prerequisites.map((id) => {
+              const from = byId.get(id);
+              if (!from) {
+                return null;
+              }
+              const isFocused = !focus || (focus.has(id) && focus.has(node.id));
+              return (
+                <path
+                  key={`${id}->${node.id}`}
+                  d={edgePath(from, node)}
+                  className={`${styles.edge} ${isFocused ? '' : styles.dimmed} ${focus && isFocused ? styles.edgeFocused : ''}`}
+                  markerEnd="url(#prerequisite-arrow)"
+                />
+              );
+            }),
+          )}
+
+          {nodes.map((node) => {
+            const status = statusOf(node.id);
+            const step = highlightedPath && !activeId ? highlightedPath.docs.indexOf(node.id) : -1;
+            const meta = [node.difficulty, node.readingTime !== undefined && formatReadingTime(node.readingTime)]
+              .filter(Boolean)
+              .join(' · ');
+            const lines = wrapTitle(node.title);
+            return (
+              <g
+                key={node.id}
+                transform={`translate(${node.x} ${node.y})`}
+                className={`${styles.node} ${focus && !focus.has(node.id) ? styles.dimmed : ''} ${node.id === activeId ? styles.nodeActive : ''}`}
+                role="link"
+                tabIndex={0}
+                aria-label={`${node.title}${status === 'unread' ? '' : ` (${status === 'completed' ? 'completed' : 'opened'})`}`}
+                onMouseEnter={() => setActiveId(node.id)}
+                onMouseLeave={() => setActiveId(null)}
+                onFocus={() => setActiveId(node.id)}
+                onBlur={() => setActiveId(null)}
+                onClick={() => history.push(node.permalink)}
+                onKeyDown={(event) => {
+                  if (event.key === 'Enter') {
+                    history.push(node.permalink);
+                  }
+                }}>
+                <title>{node.title}</title>
+                <rect className={styles.nodeBox} width={NODE_WIDTH} height={NODE_HEIGHT} rx={8} />
+                <rect
+                  className={`${styles.nodeStripe} ${styles[`section${sections.indexOf(node.section) % 4}`]}`}
+                  width={4}
+                  height={NODE_HEIGHT - 16}
+                  x={0}
+                  y={8}
+                  rx={2}
+                />
+                {lines.map((line, i) => (
+                  <text key={i} className={styles.nodeTitle} x={14} y={lines.length === 1 ? 26 : 20 + i * 16}>
+                    {line}
+                  </text>
+                ))}
+                <text className={styles.nodeMeta} x={14} y={NODE_HEIGHT - 10}>
+                  {meta}
+                </text>
+                {status !== 'unread' && (
+                  <circle className={`${styles.statusDot} ${styles[status]}`} cx={NODE_WIDTH - 12} cy={12} r={5} />
+                )}
+                {step >= 0 && (
+                  <g transform={`translate(${NODE_WIDTH - 12} ${NODE_HEIGHT - 14})`}>
+                    <circle className={styles.stepBadge} r={10} />
+                    <text className={styles.stepNumber} textAnchor="middle" dy={4}>
+                      {step + 1}
+                    </text>
+                  </g>
+                )}
+              </g>
+            );
+          })}
+        </svg>
+      </div>
+      <p className={styles.graphHint}>
+        Arrows point from a doc to the docs that build on it. Hover or focus a doc to trace what it depends on and what it unlocks.
+      </p>
+    </div>
+  );
+};
+
+export default PrerequisiteGraph;
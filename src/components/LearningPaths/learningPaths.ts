@@ -0,0 +1,65 @@
+import { usePluginData } from '@docusaurus/useGlobalData';
+import type { Difficulty } from '../DocMeta/docMeta';
+
+// A curated reading order, see learningPaths.ts at the site root
+export interface LearningPathConfig {
+  id: string;
+  title: string;
+  description: string;
+  // Doc ids in reading order, each after its own prerequisites
+  docs: string[];
+}
+
+export interface GraphDoc {
+  id: string;
+  title: string;
+  permalink: string;
+  // Top-level sidebar category, e.g. "Algorithms"
+  section: string;
+  difficulty?: Difficulty;
+  readingTime?: number;
+  prerequisites: string[];
+  // Length of the longest prerequisite chain leading to this doc
+  depth: number;
+}
+
+export interface LearningPathsData {
+  // In sidebar order
+  docs: GraphDoc[];
+  paths: LearningPathConfig[];
+}
+
+// Collected at build time by plugins/learning-paths
+export function useLearningPathsData(): LearningPathsData {
+  return usePluginData('learning-paths') as LearningPathsData;
+}
+
+// Every doc the given one builds on, directly or through other prerequisites
+export function collectPrerequisites(docId: string, docs: Map<string, GraphDoc>): Set<string> {
+  const found = new Set<string>();
+  const visit = (id: string) => {
+    for (const prerequisite of docs.get(id)?.prerequisites ?? []) {
+      if (!found.has(prerequisite)) {
+        found.add(prerequisite);
+        visit(prerequisite);
+      }
+    }
+  };
+  visit(docId);
+  return found;
+}
+
+// Every doc that builds on the given one, directly or indirectly
+export function collectDependents(docId: string, docs: Map<string, GraphDoc>): Set<string> {
+  const found = new Set<string>();
+  const visit = (id: string) => {
+    for (const doc of docs.values()) {
+      if (doc.prerequisites.includes(id) && !found.has(doc.id)) {
+        found.add(doc.id);
+        visit(doc.id);
+      }
+    }
+  };
+  visit(docId);
+  return found;
+}
@@ -0,0 +1,30 @@
+import { createPersistentStore, usePersistentStore } from '../../utils/persistentStore';
+
+// Doc id -> ISO date of the first visit
+export type VisitedDocs = Record<string, string>;
+
+// The "Before you read" box and the /paths page subscribe here
+const visitedStore = createPersistentStore<VisitedDocs>(
+  'visited-docs',
+  (stored) => {
+    const visited: unknown = JSON.parse(stored);
+    if (typeof visited !== 'object' || visited === null || Array.isArray(visited)) {
+      return null;
+    }
+    return Object.fromEntries(Object.entries(visited).filter(([, visitedAt]) => typeof visitedAt === 'string'));
+  },
+  {},
+);
+
+export function markDocVisited(docId: string) {
+  const visited = visitedStore.read();
+  if (visited[docId]) {
+    return;
+  }
+  visitedStore.write({ ...visited, [docId]: new Date().toISOString() });
+}
+
+// Null until read from storage, so nothing that depends on it renders before hydration
+export function useVisitedDocs(): VisitedDocs | null {
+  return usePersistentStore(visitedStore, null);
+}
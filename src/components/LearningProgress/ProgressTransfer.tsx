@@ -0,0 +1,69 @@
+import React, { useRef, useState } from 'react';
+import { exportProgress, importProgress } from './useLearningProgress';
+import styles from './LearningProgress.module.css';
+
+interface ProgressTransferProps {
+  className?: string;
+}
+
+// Progress only lives in this browser, so moving it to another machine goes through a JSON file
+const ProgressTransfer: React.FC<ProgressTransferProps> = ({ className }) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [message, setMessage] = useState<{ text: string; isError: boolean } | null>(null);
+
+  const handleExport = () => {
+    const data = exportProgress();
+    const url = URL.createObjectURL(new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `supdino-progress-${data.exportedAt.slice(0, 10)}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+    const exported = Object.keys(data.completed).length;
+    setMessage({ text: `Exported ${exported} completed ${exported === 1 ? 'doc' : 'docs'}.`, isError: false });
+  };
+
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    // Reset so choosing the same file again still triggers a change
+    event.target.value = '';
+    if (!file) {
+      return;
+    }
+    try {
+      const added = importProgress(JSON.parse(await file.text()));
+      setMessage({ text: `Imported ${added} new completed ${added === 1 ? 'doc' : 'docs'}.`, isError: false });
+    } catch (error) {
+      const text = error instanceof SyntaxError ? 'The progress file is not valid JSON.' : (error as Error).message;
+      setMessage({ text, isError: true });
+    }
+  };
+
+  return (
+    <div className={`${styles.transfer} ${className || ''}`}>
+      <span className={styles.status}>Your progress is saved in this browser.</span>
+      <div className={styles.transferButtons}>
+        <button className={styles.textButton} onClick={handleExport}>
+          Export progress
+        </button>
+        <button className={styles.textButton} onClick={() => fileInputRef.current?.click()}>
+          Import progress
+        </button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="application/json,.json"
+          className={styles.fileInput}
+          onChange={handleImport}
+        />
+      </div>
+      {message && (
+        <span className={`${styles.message} ${message.isError ? styles.error : ''}`} role="status">
+          {message.text}
+        </span>
+      )}
+    </div>
+  );
+};
+
+export default ProgressTransfer;
@@ -0,0 +1,34 @@
+import React from 'react';
+import { countCompleted, useLearningProgress } from './useLearningProgress';
+import styles from './LearningProgress.module.css';
+
+interface TrackProgressProps {
+  docIds: string[];
+  className?: string;
+}
+
+const TrackProgress: React.FC<TrackProgressProps> = ({ docIds, className }) => {
+  const completed = useLearningProgress();
+  const done = countCompleted(completed, docIds);
+  const percent = docIds.length > 0 ? Math.round((done / docIds.length) * 100) : 0;
+
+  return (
+    <div className={`${styles.track} ${className || ''}`}>
+      <div
+        className={styles.trackBar}
+        role="progressbar"
+        aria-valuemin={0}
+        aria-valuemax={docIds.length}
+        aria-valuenow={done}
+        aria-label="Docs completed"
+      >
+        <div className={styles.trackFill} style={{ width: `${percent}%` }} />
+      </div>
+      <span className={styles.trackLabel}>
+        {done === 0 ? `${docIds.length} docs` : `${done} of ${docIds.length} docs completed`}
+      </span>
+    </div>
+  );
+};
+
+export default TrackProgress;
@@ -0,0 +1,66 @@
+import React, { useEffect, useRef } from 'react';
+import { useDocCompletion } from './useLearningProgress';
+import styles from './LearningProgress.module.css';
+
+interface DocProgressProps {
+  docId: string;
+  className?: string;
+}
+
+const DocProgress: React.FC<DocProgressProps> = ({ docId, className }) => {
+  const [completedAt, setCompleted] = useDocCompletion(docId);
+  const endRef = useRef<HTMLDivElement>(null);
+  // Once a reader unmarks a doc, reaching the end again must not undo that
+  const markedIncomplete = useRef(false);
+
+  useEffect(() => {
+    markedIncomplete.current = false;
+  }, [docId]);
+
+  // Complete the doc automatically once the reader scrolls down to this control
+  useEffect(() => {
+    if (completedAt || markedIncomplete.current) {
+      return;
+    }
+    const handleScroll = () => {
+      const end = endRef.current;
+      if (!markedIncomplete.current && end && window.scrollY > 0 && end.getBoundingClientRect().top <= window.innerHeight) {
+        setCompleted(true);
+      }
+    };
+    window.addEventListener('scroll', handleScroll, { passive: true });
+    return () => window.removeEventListener('scroll', handleScroll);
+  }, [completedAt, setCompleted]);
+
+  const markIncomplete = () => {
+    markedIncomplete.current = true;
+    setCompleted(false);
+  };
+
+  return (
+    <div ref={endRef} className={`${styles.docProgress} ${completedAt ? styles.completed : ''} ${className || ''}`}>
+      {completedAt ? (
+        <>
+          <span className={styles.status}>
+            <svg viewBox="0 0 24 24" className={styles.checkIcon} aria-hidden="true">
+              <path d="M9 16.17L4.83 12l-1.42 1.41L9 19 21 7l-1.41-1.41z" />
+            </svg>
+            Completed on {new Date(completedAt).toLocaleDateString()}
+          </span>
+          <button className={styles.textButton} onClick={markIncomplete}>
+            Mark as incomplete
+          </button>
+        </>
+      ) : (
+        <>
+          <span className={styles.status}>Finish the page to mark it as complete</span>
+          <button className={styles.completeButton} onClick={() => setCompleted(true)}>
+            Mark as complete
+          </button>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default DocProgress;
@@ -0,0 +1,80 @@
+import { useCallback } from 'react';
+import { createPersistentStore, usePersistentStore } from '../../utils/persistentStore';
+
+const EXPORT_VERSION = 1;
+
+// Doc id -> ISO date the doc was completed
+export type CompletedDocs = Record<string, string>;
+
+export interface ProgressExport {
+  version: number;
+  exportedAt: string;
+  completed: CompletedDocs;
+}
+
+function parseCompleted(value: unknown): CompletedDocs | null {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    return null;
+  }
+  const completed: CompletedDocs = {};
+  for (const [docId, completedAt] of Object.entries(value)) {
+    if (typeof completedAt !== 'string') {
+      return null;
+    }
+    completed[docId] = completedAt;
+  }
+  return completed;
+}
+
+// The sidebar, the doc footer and the homepage all subscribe here
+const completedStore = createPersistentStore('learning-progress', (stored) => parseCompleted(JSON.parse(stored)), {});
+
+export function setDocCompleted(docId: string, isCompleted: boolean) {
+  const { [docId]: completedAt, ...completed } = completedStore.read();
+  completedStore.write(isCompleted ? { ...completed, [docId]: completedAt ?? new Date().toISOString() } : completed);
+}
+
+export function exportProgress(): ProgressExport {
+  return {
+    version: EXPORT_VERSION,
+    exportedAt: new Date().toISOString(),
+    completed: completedStore.read(),
+  };
+}
+
+// Merges an exported file into the stored progress and returns how many docs were new
+export function importProgress(data: unknown): number {
+  const file = data as Partial<ProgressExport> | null;
+  if (typeof file !== 'object' || file === null || file.version !== EXPORT_VERSION) {
+    throw new Error('This is not a progress export from this site.');
+  }
+  const imported = parseCompleted(file.completed);
+  if (!imported) {
+    throw new Error('The progress file is damaged.');
+  }
+
+  const completed = { ...completedStore.read() };
+  let added = 0;
+  for (const [docId, completedAt] of Object.entries(imported)) {
+    if (!completed[docId]) {
+      completed[docId] = completedAt;
+      added++;
+    }
+  }
+  completedStore.write(completed);
+  return added;
+}
+
+export function countCompleted(completed: CompletedDocs, docIds: string[]): number {
+  return docIds.filter((docId) => completed[docId]).length;
+}
+
+export function useLearningProgress(): CompletedDocs {
+  return usePersistentStore(completedStore);
+}
+
+export function useDocCompletion(docId: string): [string | null, (isCompleted: boolean) => void] {
+  const completed = useLearningProgress();
+  const setCompleted = useCallback((isCompleted: boolean) => setDocCompleted(docId, isCompleted), [docId]);
+  return [completed[docId] ?? null, setCompleted];
+}
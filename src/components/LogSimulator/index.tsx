@@ -0,0 +1,237 @@
+import React, { useReducer, useState, useMemo } from 'react';
+import {
+  buildIndex,
+  createWalState,
+  isValid,
+  lastIndex,
+  segmentBytes,
+  segmentFileName,
+  walReducer,
+  type LogEntry,
+} from './wal';
+import styles from './LogSimulator.module.css';
+
+interface LogSimulatorProps {
+  segmentSize?: number;
+  initialEntries?: number;
+  className?: string;
+}
+
+const SEGMENT_SIZES = [64, 96, 128, 192, 256];
+
+function samplePayload(index: number): string {
+  return `SET key${index}=v${index}`;
+}
+
+const LogSimulator: React.FC<LogSimulatorProps> = ({
+  segmentSize = 96,
+  initialEntries = 4,
+  className,
+}) => {
+  const initialState = useMemo(
+    () => createWalState(segmentSize, Array.from({ length: initialEntries }, (_, i) => samplePayload(i + 1))),
+    [segmentSize, initialEntries],
+  );
+  const [state, dispatch] = useReducer(walReducer, initialState);
+  const [payload, setPayload] = useState('');
+  const [showIndexes, setShowIndexes] = useState(true);
+
+  const nextPayload = payload.trim() || samplePayload(state.nextIndex);
+  const pendingSync = state.segments.some((segment) => segment.entries.some((entry) => !entry.synced));
+  const truncateLimit = Math.min(state.lowWaterMark, state.checkpoint + 1);
+
+  const entryClassName = (entry: LogEntry): string => {
+    const classes = [styles.entry];
+    if (!isValid(entry)) {
+      classes.push(styles.torn);
+    } else if (!entry.synced) {
+      classes.push(styles.unsynced);
+    } else if (entry.index <= state.checkpoint) {
+      classes.push(styles.checkpointed);
+    }
+    if (state.replayed.includes(entry.index)) {
+      classes.push(styles.replayed);
+    }
+    return classes.join(' ');
+  };
+
+  const append = () => {
+    dispatch({ type: 'append', payload: nextPayload });
+    setPayload('');
+  };
+
+  return (
+    <div className={`${styles.simulator} ${className || ''}`}>
+      <div className={styles.header}>
+        <span className={styles.title}>Write-Ahead Log Simulator</span>
+        <div className={styles.stats}>
+          <span className={styles.stat}>Next <strong>#{state.nextIndex}</strong></span>
+          <span className={styles.stat}>Checkpoint <strong>#{state.checkpoint}</strong></span>
+          <span className={styles.stat}>Segments <strong>{state.segments.length}</strong></span>
+          <span className={`${styles.status} ${state.crashed ? styles.down : styles.up}`}>
+            {state.crashed ? 'Crashed' : 'Running'}
+          </span>
+        </div>
+      </div>
+
+      <div className={styles.toolbar}>
+        <input
+          className={styles.payloadInput}
+          value={payload}
+          placeholder={samplePayload(state.nextIndex)}
+          onChange={(e) => setPayload(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && !state.crashed && append()}
+          disabled={state.crashed}
+          aria-label="Entry payload"
+          spellCheck={false}
+        />
+        <button className={styles.primaryButton} onClick={append} disabled={state.crashed}>
+          Append
+        </button>
+        <button className={styles.textButton} onClick={() => dispatch({ type: 'sync' })} disabled={state.crashed || !pendingSync}>
+          fsync
+        </button>
+        <button className={styles.textButton} onClick={() => dispatch({ type: 'roll' })} disabled={state.crashed}>
+          Roll segment
+        </button>
+        <button className={styles.textButton} onClick={() => dispatch({ type: 'checkpoint' })} disabled={state.crashed}>
+          Checkpoint
+        </button>
+      </div>
+
+      <div className={styles.toolbar}>
+        <label className={styles.field}>
+          Segment size
+          <select
+            value={state.segmentSize}
+            onChange={(e) => dispatch({ type: 'setSegmentSize', size: Number(e.target.value) })}
+            disabled={state.crashed}
+          >
+            {SEGMENT_SIZES.map((size) => (
+              <option key={size} value={size}>{size} B</option>
+            ))}
+          </select>
+        </label>
+        <label className={styles.field}>
+          <input
+            type="checkbox"
+            checked={state.syncOnAppend}
+            onChange={(e) => dispatch({ type: 'setSyncOnAppend', enabled: e.target.checked })}
+            disabled={state.crashed}
+          />
+          fsync every append
+        </label>
+        <label className={styles.field}>
+          Low-water mark
+          <input
+            type="number"
+            min={1}
+            className={styles.numberInput}
+            value={state.lowWaterMark}
+            onChange={(e) => dispatch({ type: 'setLowWaterMark', index: Math.max(1, Number(e.target.value)) })}
+            disabled={state.crashed}
+          />
+        </label>
+        <button className={styles.textButton} onClick={() => dispatch({ type: 'truncate' })} disabled={state.crashed}>
+          Truncate below #{truncateLimit}
+        </button>
+      </div>
+
+      <div className={styles.toolbar}>
+        <button
+          className={`${styles.textButton} ${styles.dangerButton}`}
+          onClick={() => dispatch({ type: 'crash', payload: nextPayload })}
+          disabled={state.crashed}
+        >
+          Crash mid-write
+        </button>
+        <button
+          className={`${styles.textButton} ${styles.successButton}`}
+          onClick={() => dispatch({ type: 'recover' })}
+          disabled={!state.crashed}
+        >
+          Replay recovery
+        </button>
+        <button className={styles.textButton} onClick={() => dispatch({ type: 'reset', state: initialState })}>
+          Reset
+        </button>
+        <label className={`${styles.field} ${styles.pushRight}`}>
+          <input type="checkbox" checked={showIndexes} onChange={(e) => setShowIndexes(e.target.checked)} />
+          Show index files
+        </label>
+      </div>
+
+      <div className={styles.segments}>
+        {state.segments.map((segment) => {
+          const used = segmentBytes(segment);
+          const index = buildIndex(segment);
+          return (
+            <div
+              key={segment.baseIndex}
+              className={`${styles.segment} ${segment.sealed ? styles.sealed : styles.active} ${lastIndex(segment) < truncateLimit && segment.sealed ? styles.removable : ''}`}
+            >
+              <div className={styles.segmentHeader}>
+                <code>{segmentFileName(segment)}</code>
+                <span>{segment.sealed ? 'sealed' : 'active'}</span>
+              </div>
+              <div className={styles.capacity} title={`${used} of ${state.segmentSize} bytes`}>
+                <div
+                  className={styles.capacityFill}
+                  style={{ width: `${Math.min((used / state.segmentSize) * 100, 100)}%` }}
+                />
+              </div>
+              <div className={styles.entries}>
+                {segment.entries.length === 0 && <span className={styles.emptySegment}>empty</span>}
+                {segment.entries.map((entry) => (
+                  <div
+                    key={entry.index}
+                    className={entryClassName(entry)}
+                    style={{ flexGrow: entry.size }}
+                    title={`#${entry.index} ${entry.payload}\n${entry.size} B, crc ${entry.checksum}${isValid(entry) ? '' : ' (mismatch)'}`}
+                  >
+                    #{entry.index}
+                  </div>
+                ))}
+              </div>
+              {showIndexes && (
+                <table className={styles.indexTable}>
+                  <caption>{segmentFileName(segment).replace('.log', '.index')}</caption>
+                  <tbody>
+                    {state.crashed ? (
+                      <tr><td colSpan={2}>lost in crash - rebuilt on recovery</td></tr>
+                    ) : (
+                      index.map((item) => (
+                        <tr key={item.index}>
+                          <td>#{item.index}</td>
+                          <td>@{item.position}</td>
+                        </tr>
+                      ))
+                    )}
+                  </tbody>
+                </table>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      <div className={styles.legend}>
+        <span><i className={styles.checkpointed} /> Checkpointed</span>
+        <span><i className={styles.synced} /> Durable</span>
+        <span><i className={styles.unsynced} /> Not fsynced</span>
+        <span><i className={styles.torn} /> Torn write</span>
+        <span><i className={styles.replayed} /> Replayed</span>
+      </div>
+
+      <ul className={styles.events} aria-live="polite">
+        {state.events.map((event) => (
+          <li key={event.id} className={styles[event.kind]}>
+            {event.message}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default LogSimulator;
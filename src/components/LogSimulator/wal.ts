@@ -0,0 +1,311 @@
+// Length (4 bytes) + index (8 bytes) + checksum (4 bytes) in front of every payload
+export const HEADER_SIZE = 16;
+
+export interface LogEntry {
+  index: number;
+  payload: string;
+  // Bytes on disk, including the header
+  size: number;
+  checksum: string;
+  synced: boolean;
+}
+
+export interface Segment {
+  baseIndex: number;
+  entries: LogEntry[];
+  sealed: boolean;
+}
+
+export interface IndexEntry {
+  index: number;
+  position: number;
+}
+
+export type EventKind = 'info' | 'success' | 'warning' | 'danger';
+
+export interface LogEvent {
+  id: number;
+  kind: EventKind;
+  message: string;
+}
+
+export interface WalState {
+  segments: Segment[];
+  segmentSize: number;
+  nextIndex: number;
+  // Highest index covered by the last checkpoint, 0 before the first one
+  checkpoint: number;
+  lowWaterMark: number;
+  syncOnAppend: boolean;
+  crashed: boolean;
+  // Indexes written during the last recovery, highlighted until the next action
+  replayed: number[];
+  events: LogEvent[];
+}
+
+export type WalAction =
+  | { type: 'append'; payload: string }
+  | { type: 'sync' }
+  | { type: 'roll' }
+  | { type: 'checkpoint' }
+  | { type: 'setSegmentSize'; size: number }
+  | { type: 'setLowWaterMark'; index: number }
+  | { type: 'setSyncOnAppend'; enabled: boolean }
+  | { type: 'truncate' }
+  | { type: 'crash'; payload: string }
+  | { type: 'recover' }
+  | { type: 'reset'; state: WalState };
+
+const MAX_EVENTS = 50;
+
+// FNV-1a, enough to show a torn record failing verification
+export function checksum(index: number, payload: string): string {
+  let hash = 0x811c9dc5;
+  const input = `${index}:${payload}`;
+  for (let i = 0; i < input.length; i++) {
+    hash ^= input.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+}
+
+export function entrySize(payload: string): number {
+  return HEADER_SIZE + new TextEncoder().encode(payload).length;
+}
+
+export function isValid(entry: LogEntry): boolean {
+  return checksum(entry.index, entry.payload) === entry.checksum && entry.size === entrySize(entry.payload);
+}
+
+export function segmentBytes(segment: Segment): number {
+  return segment.entries.reduce((total, entry) => total + entry.size, 0);
+}
+
+export function lastIndex(segment: Segment): number {
+  return segment.entries.length > 0 ? segment.entries[segment.entries.length - 1].index : segment.baseIndex - 1;
+}
+
+export function segmentFileName(segment: Segment): string {
+  return `${String(segment.baseIndex).padStart(20, '0')}.log`;
+}
+
+// The index file maps every entry of a segment to its byte position
+export function buildIndex(segment: Segment): IndexEntry[] {
+  let position = 0;
+  return segment.entries.map((entry) => {
+    const indexEntry = { index: entry.index, position };
+    position += entry.size;
+    return indexEntry;
+  });
+}
+
+function makeEntry(index: number, payload: string, synced: boolean): LogEntry {
+  return { index, payload, size: entrySize(payload), checksum: checksum(index, payload), synced };
+}
+
+function withEvent(state: WalState, kind: EventKind, message: string): WalState {
+  const id = (state.events[0]?.id ?? 0) + 1;
+  return { ...state, events: [{ id, kind, message }, ...state.events].slice(0, MAX_EVENTS) };
+}
+
+function activeSegment(state: WalState): Segment {
+  return state.segments[state.segments.length - 1];
+}
+
+function replaceActive(state: WalState, segment: Segment): Segment[] {
+  return [...state.segments.slice(0, -1), segment];
+}
+
+function rollSegment(state: WalState): WalState {
+  const sealed = { ...activeSegment(state), sealed: true };
+  const next: Segment = { baseIndex: state.nextIndex, entries: [], sealed: false };
+  return withEvent(
+    { ...state, segments: [...replaceActive(state, sealed), next] },
+    'info',
+    `Sealed ${segmentFileName(sealed)} and opened ${segmentFileName(next)}`,
+  );
+}
+
+function append(state: WalState, payload: string): WalState {
+  const entry = makeEntry(state.nextIndex, payload, false);
+  let next = state;
+  const active = activeSegment(next);
+  // Roll before the write if it would overflow a non-empty segment
+  if (active.entries.length > 0 && segmentBytes(active) + entry.size > next.segmentSize) {
+    next = rollSegment(next);
+  }
+  const target = activeSegment(next);
+  next = {
+    ...next,
+    segments: replaceActive(next, { ...target, entries: [...target.entries, entry] }),
+    nextIndex: entry.index + 1,
+  };
+  if (!next.syncOnAppend) {
+    return withEvent(next, 'info', `Appended #${entry.index} (${entry.size} B), not yet fsynced`);
+  }
+  // fsync flushes the whole file, so entries written before the option was turned on become durable too
+  return sync(withEvent(next, 'info', `Appended #${entry.index} (${entry.size} B)`));
+}
+
+function sync(state: WalState): WalState {
+  const pending = state.segments.flatMap((segment) => segment.entries).filter((entry) => !entry.synced).length;
+  if (pending === 0) {
+    return withEvent(state, 'info', 'fsync: nothing to flush');
+  }
+  const segments = state.segments.map((segment) => ({
+    ...segment,
+    entries: segment.entries.map((entry) => ({ ...entry, synced: true })),
+  }));
+  return withEvent({ ...state, segments }, 'success', `fsync flushed ${pending} entr${pending === 1 ? 'y' : 'ies'} to disk`);
+}
+
+function checkpoint(state: WalState): WalState {
+  // Only durable entries can be covered by a checkpoint
+  const durable = state.segments
+    .flatMap((segment) => segment.entries)
+    .filter((entry) => entry.synced)
+    .map((entry) => entry.index);
+  const upTo = durable.length > 0 ? Math.max(...durable) : 0;
+  if (upTo <= state.checkpoint) {
+    return withEvent(state, 'info', 'Checkpoint: no new durable entries since the last checkpoint');
+  }
+  return withEvent({ ...state, checkpoint: upTo }, 'success', `Checkpoint written at #${upTo}`);
+}
+
+function truncate(state: WalState): WalState {
+  // Entries above the checkpoint are still needed for recovery, whatever the LWM says
+  const limit = Math.min(state.lowWaterMark, state.checkpoint + 1);
+  const removable = state.segments.filter((segment) => segment.sealed && lastIndex(segment) < limit);
+  if (removable.length === 0) {
+    return withEvent(state, 'info', `Truncate: no sealed segment lies entirely below #${limit}`);
+  }
+  const next = withEvent(
+    { ...state, segments: state.segments.filter((segment) => !removable.includes(segment)) },
+    'success',
+    `Deleted ${removable.map(segmentFileName).join(', ')} (below #${limit})`,
+  );
+  return state.lowWaterMark > limit
+    ? withEvent(next, 'warning', `Low-water mark #${state.lowWaterMark} is above the checkpoint, truncated below #${limit} instead`)
+    : next;
+}
+
+function crash(state: WalState, payload: string): WalState {
+  const pending = state.segments.flatMap((segment) => segment.entries).filter((entry) => !entry.synced);
+  // The write in flight is the flush of the oldest pending entry, or the new payload if everything is durable
+  const inFlight = pending[0] ?? makeEntry(state.nextIndex, payload, false);
+  const keptPayload = inFlight.payload.slice(0, Math.floor(inFlight.payload.length / 2));
+  const torn: LogEntry = { ...inFlight, payload: keptPayload, size: entrySize(keptPayload), synced: true };
+
+  // The page cache is gone: only fsynced entries and the torn prefix are on disk
+  const segments = state.segments.map((segment, i) => {
+    const entries = segment.entries.filter((entry) => entry.synced);
+    const holdsInFlight = pending.length > 0 ? segment.entries.includes(inFlight) : i === state.segments.length - 1;
+    return { ...segment, entries: holdsInFlight ? [...entries, torn] : entries };
+  });
+
+  let next = withEvent(
+    { ...state, segments, crashed: true, replayed: [] },
+    'danger',
+    `Crash while writing #${torn.index}: only ${torn.size} of ${inFlight.size} bytes reached the disk`,
+  );
+  const lost = pending.length - 1;
+  if (lost > 0) {
+    next = withEvent(next, 'danger', `${lost} later un-fsynced entr${lost === 1 ? 'y was' : 'ies were'} lost with the page cache`);
+  }
+  return next;
+}
+
+function recover(state: WalState): WalState {
+  let next = withEvent(state, 'info', `Recovery: load checkpoint #${state.checkpoint}, scan ${state.segments.length} segment(s)`);
+  const segments: Segment[] = [];
+  let valid = 0;
+
+  for (const segment of state.segments) {
+    const badAt = segment.entries.findIndex((entry) => !isValid(entry));
+    if (badAt === -1) {
+      segments.push(segment);
+      valid = Math.max(valid, lastIndex(segment));
+      continue;
+    }
+    const bad = segment.entries[badAt];
+    const position = buildIndex(segment)[badAt].position;
+    next = withEvent(next, 'warning', `Checksum mismatch for #${bad.index} in ${segmentFileName(segment)} at byte ${position}: truncating the tail`);
+    segments.push({ ...segment, entries: segment.entries.slice(0, badAt) });
+    valid = Math.max(valid, lastIndex({ ...segment, entries: segment.entries.slice(0, badAt) }));
+    // Everything after a torn record is unreachable
+    break;
+  }
+
+  const replayed = segments
+    .flatMap((segment) => segment.entries)
+    .map((entry) => entry.index)
+    .filter((index) => index > state.checkpoint);
+  next = withEvent(
+    next,
+    'info',
+    replayed.length > 0
+      ? `Replayed #${replayed[0]}..#${replayed[replayed.length - 1]} on top of the checkpoint`
+      : 'Nothing to replay after the checkpoint',
+  );
+
+  // The surviving tail stays writable; earlier segments are sealed
+  const reopened = segments.map((segment, i) => ({ ...segment, sealed: i < segments.length - 1 }));
+  return withEvent(
+    { ...next, segments: reopened, nextIndex: valid + 1, crashed: false, replayed },
+    'success',
+    `Rebuilt ${reopened.length} index file(s); next append is #${valid + 1}`,
+  );
+}
+
+export function createWalState(segmentSize: number, payloads: string[] = []): WalState {
+  const initial: WalState = {
+    segments: [{ baseIndex: 1, entries: [], sealed: false }],
+    segmentSize,
+    nextIndex: 1,
+    checkpoint: 0,
+    lowWaterMark: 1,
+    syncOnAppend: true,
+    crashed: false,
+    replayed: [],
+    events: [],
+  };
+  return payloads.reduce(append, initial);
+}
+
+export function walReducer(state: WalState, action: WalAction): WalState {
+  if (action.type === 'reset') {
+    return action.state;
+  }
+  // A crashed node accepts nothing but recovery
+  if (state.crashed && action.type !== 'recover') {
+    return state;
+  }
+
+  const current = { ...state, replayed: [] };
+  switch (action.type) {
+    case 'append':
+      return append(current, action.payload);
+    case 'sync':
+      return sync(current);
+    case 'roll':
+      return activeSegment(current).entries.length === 0
+        ? withEvent(current, 'info', 'Active segment is empty, nothing to roll')
+        : rollSegment(current);
+    case 'checkpoint':
+      return checkpoint(current);
+    case 'setSegmentSize':
+      return { ...current, segmentSize: action.size };
+    case 'setLowWaterMark':
+      return { ...current, lowWaterMark: action.index };
+    case 'setSyncOnAppend':
+      return { ...current, syncOnAppend: action.enabled };
+    case 'truncate':
+      return truncate(current);
+    case 'crash':
+      return crash(current, action.payload);
+    case 'recover':
+      return state.crashed ? recover(state) : state;
+    default:
+      return state;
+  }
+}
@@ -0,0 +1,429 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import {
+  protocols,
+  simulate,
+  type Fault,
+  type FaultKind,
+  type Protocol,
+  type Sample,
+  type SimulationConfig,
+} from './simulation';
+import { scenarios, type ScenarioName } from './scenarios';
+import styles from './LowWaterMarkSimulator.module.css';
+
+interface LowWaterMarkSimulatorProps {
+  scenario?: ScenarioName;
+  protocol?: Protocol;
+  className?: string;
+}
+
+const CHART_WIDTH = 640;
+const CHART_HEIGHT = 240;
+const PADDING = { top: 10, right: 12, bottom: 24, left: 36 };
+const LANE_HEIGHT = 14;
+const MIN_NODES = 3;
+const MAX_NODES = 7;
+const MAX_FAULTS = 4;
+const SLOW_FACTORS = [2, 4, 8];
+const NODE_COLORS = ['#667eea', '#10b981', '#f59e0b', '#8b5cf6', '#ec4899', '#06b6d4', '#84cc16'];
+const SPEEDS = [
+  { label: '0.5x', delay: 200 },
+  { label: '1x', delay: 100 },
+  { label: '2x', delay: 50 },
+  { label: '4x', delay: 25 },
+];
+
+const DEFAULT_CONFIG: SimulationConfig = {
+  protocol: 'heartbeat',
+  nodeCount: 5,
+  seed: 1,
+  duration: 600,
+  faults: [],
+};
+
+function defaultFault(kind: FaultKind, nodeCount: number): Fault {
+  const node = nodeCount - 1;
+  switch (kind) {
+    case 'partition':
+      return { kind, nodes: [node], start: 200, end: 400 };
+    case 'slow':
+      return { kind, node, factor: 4, start: 200, end: 400 };
+    case 'crash':
+      return { kind, node, start: 200, end: 400 };
+  }
+}
+
+function faultNodes(fault: Fault): number[] {
+  return fault.kind === 'partition' ? fault.nodes : [fault.node];
+}
+
+function polyline(samples: Sample[], value: (sample: Sample) => number, x: (time: number) => number, y: (value: number) => number): string {
+  return samples.map((sample) => `${x(sample.time).toFixed(1)},${y(value(sample)).toFixed(1)}`).join(' ');
+}
+
+const LowWaterMarkSimulator: React.FC<LowWaterMarkSimulatorProps> = ({
+  scenario,
+  protocol,
+  className,
+}) => {
+  const preset = scenario ? scenarios[scenario] : undefined;
+  const initialConfig = useMemo<SimulationConfig>(
+    () => (preset ? { ...preset } : { ...DEFAULT_CONFIG, protocol: protocol ?? DEFAULT_CONFIG.protocol }),
+    [preset, protocol],
+  );
+  const [config, setConfig] = useState<SimulationConfig>(initialConfig);
+  const [stepIndex, setStepIndex] = useState(0);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [speedIndex, setSpeedIndex] = useState(1);
+
+  const samples = useMemo(() => simulate(config), [config]);
+  const sample = samples[stepIndex];
+  const isFinished = stepIndex >= samples.length - 1;
+  const visible = samples.slice(0, stepIndex + 1);
+
+  // Advance one sample per tick while playing
+  useEffect(() => {
+    if (!isPlaying) {
+      return undefined;
+    }
+    if (isFinished) {
+      setIsPlaying(false);
+      return undefined;
+    }
+    const timer = window.setTimeout(() => {
+      setStepIndex((index) => Math.min(index + 1, samples.length - 1));
+    }, SPEEDS[speedIndex].delay);
+    return () => window.clearTimeout(timer);
+  }, [isPlaying, isFinished, stepIndex, speedIndex, samples.length]);
+
+  const loadConfig = (next: SimulationConfig) => {
+    setConfig(next);
+    setStepIndex(0);
+    setIsPlaying(false);
+  };
+
+  const updateConfig = (changes: Partial<SimulationConfig>) => {
+    loadConfig({ ...config, ...changes });
+  };
+
+  const updateFault = (index: number, fault: Fault) => {
+    updateConfig({ faults: config.faults.map((current, i) => (i === index ? fault : current)) });
+  };
+
+  const changeNodeCount = (nodeCount: number) => {
+    // Drop faults that point at nodes which no longer exist
+    const faults = config.faults
+      .map((fault) => (fault.kind === 'partition' ? { ...fault, nodes: fault.nodes.filter((node) => node < nodeCount) } : fault))
+      .filter((fault) => faultNodes(fault).length > 0 && faultNodes(fault).every((node) => node < nodeCount));
+    updateConfig({ nodeCount, faults });
+  };
+
+  const togglePlay = () => {
+    if (isFinished) {
+      setStepIndex(0);
+    }
+    setIsPlaying(!isPlaying);
+  };
+
+  const chartBottom = CHART_HEIGHT - PADDING.bottom - config.faults.length * LANE_HEIGHT;
+  const maxProgress = Math.max(...samples[samples.length - 1].nodes.map((node) => node.progress), 1);
+  const x = (time: number) => PADDING.left + (time / config.duration) * (CHART_WIDTH - PADDING.left - PADDING.right);
+  const y = (value: number) => chartBottom - (value / maxProgress) * (chartBottom - PADDING.top);
+  const unsafe = sample.lwm > sample.minProgress;
+
+  return (
+    <div className={`${styles.simulator} ${className || ''}`}>
+      <div className={styles.header}>
+        <span className={styles.title}>{preset ? preset.title : 'Low-Water Mark Simulator'}</span>
+        <div className={styles.stats}>
+          <span className={styles.stat}>t = <strong>{sample.time} ms</strong></span>
+          <span className={`${styles.stat} ${unsafe ? styles.unsafe : ''}`}>LWM <strong>{sample.lwm}</strong></span>
+          <span className={styles.stat}>Slowest <strong>{sample.minProgress}</strong></span>
+          <span className={styles.stat}>Messages <strong>{sample.sent}</strong> / dropped <strong>{sample.dropped}</strong></span>
+          {config.protocol === 'time' && (
+            <span className={styles.stat}>Late <strong>{sample.late}</strong></span>
+          )}
+        </div>
+      </div>
+
+      <p className={styles.description}>
+        {preset && config === initialConfig ? preset.summary : protocols[config.protocol].description}
+      </p>
+
+      <svg
+        className={styles.chart}
+        viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`}
+        role="img"
+        aria-label="Per-node progress and the global low-water mark over time"
+      >
+        {[0, 0.5, 1].map((fraction) => (
+          <g key={fraction}>
+            <line className={styles.gridLine} x1={PADDING.left} x2={CHART_WIDTH - PADDING.right} y1={y(maxProgress * fraction)} y2={y(maxProgress * fraction)} />
+            <text className={styles.axisLabel} x={PADDING.left - 6} y={y(maxProgress * fraction)} textAnchor="end">
+              {Math.round(maxProgress * fraction)}
+            </text>
+          </g>
+        ))}
+        {[0, 0.25, 0.5, 0.75, 1].map((fraction) => (
+          <text
+            key={fraction}
+            className={styles.axisLabel}
+            x={x(config.duration * fraction)}
+            y={CHART_HEIGHT - 6}
+            textAnchor="middle"
+          >
+            {config.duration * fraction} ms
+          </text>
+        ))}
+
+        {config.faults.map((fault, i) => (
+          <g key={i} className={`${styles.faultLane} ${styles[fault.kind]}`}>
+            <rect
+              x={x(Math.min(fault.start, config.duration))}
+              y={chartBottom + 4 + i * LANE_HEIGHT}
+              width={Math.max(x(Math.min(fault.end, config.duration)) - x(Math.min(fault.start, config.duration)), 0)}
+              height={LANE_HEIGHT - 4}
+              rx={2}
+            />
+            <text x={x(Math.min(fault.start, config.duration)) + 4} y={chartBottom + 4 + i * LANE_HEIGHT + (LANE_HEIGHT - 4) / 2}>
+              {fault.kind} {faultNodes(fault).map((node) => `n${node}`).join(' ')}
+            </text>
+          </g>
+        ))}
+
+        {sample.nodes.map((_, node) => (
+          <polyline
+            key={node}
+            className={styles.progressLine}
+            points={polyline(visible, (s) => s.nodes[node].progress, x, y)}
+            stroke={NODE_COLORS[node]}
+          />
+        ))}
+        <polyline className={styles.minLine} points={polyline(visible, (s) => s.minProgress, x, y)} />
+        <polyline className={styles.lwmLine} points={polyline(visible, (s) => s.lwm, x, y)} />
+        <line className={styles.cursor} x1={x(sample.time)} x2={x(sample.time)} y1={PADDING.top} y2={chartBottom} />
+      </svg>
+
+      <div className={styles.legend}>
+        <span><i className={styles.lwmSwatch} /> Global LWM</span>
+        <span><i className={styles.minSwatch} /> Slowest node</span>
+        <span>Thin lines: per-node progress</span>
+      </div>
+
+      <div className={styles.nodes}>
+        {sample.nodes.map((node, id) => (
+          <div key={id} className={`${styles.node} ${node.crashed ? styles.nodeDown : ''}`}>
+            <div className={styles.nodeHeader}>
+              <i style={{ background: NODE_COLORS[id] }} />
+              <strong>n{id}</strong>
+              {id === 0 && config.protocol !== 'gossip' && (
+                <span className={styles.badge}>{config.protocol === 'consensus' ? 'leader' : config.protocol === 'time' ? 'operator' : 'coordinator'}</span>
+              )}
+            </div>
+            <div>progress <strong>{node.progress}</strong></div>
+            <div>local LWM <strong>{node.lwm}</strong></div>
+            <div className={styles.badges}>
+              {node.crashed && <span className={`${styles.badge} ${styles.crash}`}>crashed</span>}
+              {node.partitioned && <span className={`${styles.badge} ${styles.partition}`}>partitioned</span>}
+              {node.slow && <span className={`${styles.badge} ${styles.slow}`}>slow</span>}
+              {node.excluded && <span className={styles.badge}>idle</span>}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <div className={styles.controls}>
+        <button className={styles.button} onClick={() => { setIsPlaying(false); setStepIndex(0); }} disabled={stepIndex === 0} title="Reset" aria-label="Reset">
+          <svg viewBox="0 0 24 24" className={styles.icon}>
+            <path d="M6 6h2v12H6zm3.5 6 8.5 6V6z"/>
+          </svg>
+        </button>
+        <button className={styles.button} onClick={() => { setIsPlaying(false); setStepIndex(Math.max(stepIndex - 1, 0)); }} disabled={stepIndex === 0} title="Step back" aria-label="Step back">
+          <svg viewBox="0 0 24 24" className={styles.icon}>
+            <path d="M15.41 7.41 14 6l-6 6 6 6 1.41-1.41L10.83 12z"/>
+          </svg>
+        </button>
+        <button className={`${styles.button} ${styles.playButton}`} onClick={togglePlay} title={isPlaying ? 'Pause' : 'Play'} aria-label={isPlaying ? 'Pause' : 'Play'}>
+          {isPlaying ? (
+            <svg viewBox="0 0 24 24" className={styles.icon}>
+              <path d="M6 19h4V5H6v14zm8-14v14h4V5h-4z"/>
+            </svg>
+          ) : (
+            <svg viewBox="0 0 24 24" className={styles.icon}>
+              <path d="M8 5v14l11-7z"/>
+            </svg>
+          )}
+        </button>
+        <button className={styles.button} onClick={() => { setIsPlaying(false); setStepIndex(Math.min(stepIndex + 1, samples.length - 1)); }} disabled={isFinished} title="Step forward" aria-label="Step forward">
+          <svg viewBox="0 0 24 24" className={styles.icon}>
+            <path d="M10 6 8.59 7.41 13.17 12l-4.58 4.59L10 18l6-6z"/>
+          </svg>
+        </button>
+
+        <label className={styles.speed}>
+          Speed
+          <input
+            type="range"
+            min={0}
+            max={SPEEDS.length - 1}
+            value={speedIndex}
+            onChange={(e) => setSpeedIndex(Number(e.target.value))}
+          />
+          <span>{SPEEDS[speedIndex].label}</span>
+        </label>
+
+        <input
+          type="range"
+          className={styles.timeline}
+          min={0}
+          max={samples.length - 1}
+          value={stepIndex}
+          onChange={(e) => { setIsPlaying(false); setStepIndex(Number(e.target.value)); }}
+          aria-label="Simulation time"
+        />
+      </div>
+
+      <details className={styles.settings}>
+        <summary>Scenario settings</summary>
+        <div className={styles.toolbar}>
+          <label className={styles.field}>
+            Protocol
+            <select value={config.protocol} onChange={(e) => updateConfig({ protocol: e.target.value as Protocol })}>
+              {(Object.keys(protocols) as Protocol[]).map((key) => (
+                <option key={key} value={key}>{protocols[key].name}</option>
+              ))}
+            </select>
+          </label>
+          <label className={styles.field}>
+            Nodes
+            <input
+              type="number"
+              className={styles.numberInput}
+              min={MIN_NODES}
+              max={MAX_NODES}
+              value={config.nodeCount}
+              onChange={(e) => changeNodeCount(Math.min(Math.max(Number(e.target.value), MIN_NODES), MAX_NODES))}
+            />
+          </label>
+          <label className={styles.field}>
+            Seed
+            <input
+              type="number"
+              className={styles.numberInput}
+              min={0}
+              value={config.seed}
+              onChange={(e) => updateConfig({ seed: Math.max(0, Math.floor(Number(e.target.value))) })}
+            />
+          </label>
+          <button className={styles.textButton} onClick={() => updateConfig({ seed: Math.floor(Math.random() * 10000) })}>
+            New seed
+          </button>
+          <button className={styles.textButton} onClick={() => loadConfig(initialConfig)} disabled={config === initialConfig}>
+            Restore {preset ? 'preset' : 'defaults'}
+          </button>
+        </div>
+
+        <ul className={styles.faults}>
+          {config.faults.map((fault, i) => (
+            <li key={i} className={styles.fault}>
+              <span className={`${styles.badge} ${styles[fault.kind]}`}>{fault.kind}</span>
+              {fault.kind === 'partition' ? (
+                <span className={styles.field}>
+                  isolate
+                  {Array.from({ length: config.nodeCount }, (_, node) => (
+                    <label key={node} className={styles.nodeToggle}>
+                      <input
+                        type="checkbox"
+                        checked={fault.nodes.includes(node)}
+                        onChange={(e) =>
+                          updateFault(i, {
+                            ...fault,
+                            nodes: e.target.checked ? [...fault.nodes, node].sort((a, b) => a - b) : fault.nodes.filter((n) => n !== node),
+                          })
+                        }
+                      />
+                      n{node}
+                    </label>
+                  ))}
+                </span>
+              ) : (
+                <label className={styles.field}>
+                  node
+                  <select value={fault.node} onChange={(e) => updateFault(i, { ...fault, node: Number(e.target.value) })}>
+                    {Array.from({ length: config.nodeCount }, (_, node) => (
+                      <option key={node} value={node}>n{node}</option>
+                    ))}
+                  </select>
+                </label>
+              )}
+              {fault.kind === 'slow' && (
+                <label className={styles.field}>
+                  factor
+                  <select value={fault.factor} onChange={(e) => updateFault(i, { ...fault, factor: Number(e.target.value) })}>
+                    {SLOW_FACTORS.map((factor) => (
+                      <option key={factor} value={factor}>{factor}x</option>
+                    ))}
+                  </select>
+                </label>
+              )}
+              <label className={styles.field}>
+                from
+                <input
+                  type="number"
+                  className={styles.numberInput}
+                  min={0}
+                  step={10}
+                  value={fault.start}
+                  onChange={(e) => updateFault(i, { ...fault, start: Math.max(0, Number(e.target.value)) })}
+                />
+              </label>
+              <label className={styles.field}>
+                to
+                <input
+                  type="number"
+                  className={styles.numberInput}
+                  min={0}
+                  step={10}
+                  value={fault.end}
+                  onChange={(e) => updateFault(i, { ...fault, end: Math.max(0, Number(e.target.value)) })}
+                />
+              </label>
+              <button
+                className={styles.textButton}
+                onClick={() => updateConfig({ faults: config.faults.filter((_, index) => index !== i) })}
+                aria-label={`Remove ${fault.kind}`}
+              >
+                Remove
+              </button>
+            </li>
+          ))}
+        </ul>
+        <div className={styles.toolbar}>
+          <button
+            className={styles.textButton}
+            onClick={() => updateConfig({ faults: [...config.faults, defaultFault('partition', config.nodeCount)] })}
+            disabled={config.faults.length >= MAX_FAULTS}
+          >
+            + Partition
+          </button>
+          <button
+            className={styles.textButton}
+            onClick={() => updateConfig({ faults: [...config.faults, defaultFault('slow', config.nodeCount)] })}
+            disabled={config.faults.length >= MAX_FAULTS}
+          >
+            + Slow node
+          </button>
+          <button
+            className={styles.textButton}
+            onClick={() => updateConfig({ faults: [...config.faults, defaultFault('crash', config.nodeCount)] })}
+            disabled={config.faults.length >= MAX_FAULTS}
+          >
+            + Crash
+          </button>
+        </div>
+      </details>
+    </div>
+  );
+};
+
+export default LowWaterMarkSimulator;
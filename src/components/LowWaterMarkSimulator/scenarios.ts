@@ -0,0 +1,54 @@
+import type { SimulationConfig } from './simulation';
+
+export type ScenarioName = 'heartbeat-crash' | 'consensus-partition' | 'gossip-slow-node' | 'time-idle-source';
+
+export interface Scenario extends SimulationConfig {
+  title: string;
+  summary: string;
+}
+
+export const scenarios: Record<ScenarioName, Scenario> = {
+  'heartbeat-crash': {
+    title: 'Heartbeat: a crashed replica pins the LWM',
+    summary:
+      'n3 crashes at 200 ms. The coordinator keeps using its last report, so the LWM stays flat until n3 restarts and catches up.',
+    protocol: 'heartbeat',
+    nodeCount: 5,
+    seed: 7,
+    duration: 600,
+    faults: [{ kind: 'crash', node: 3, start: 200, end: 400 }],
+  },
+  'consensus-partition': {
+    title: 'Consensus: the leader ends up in the minority',
+    summary:
+      'n0 and n1 are cut off from the rest between 200 and 400 ms. Without a majority of acknowledgements no new LWM can be committed.',
+    protocol: 'consensus',
+    nodeCount: 5,
+    seed: 11,
+    duration: 600,
+    faults: [{ kind: 'partition', nodes: [0, 1], start: 200, end: 400 }],
+  },
+  'gossip-slow-node': {
+    title: 'Gossip: a slow node and a short partition',
+    summary:
+      'n2 runs four times slower and n5 and n6 are partitioned for a while. Local views drift apart, then converge again once gossip flows.',
+    protocol: 'gossip',
+    nodeCount: 7,
+    seed: 3,
+    duration: 600,
+    faults: [
+      { kind: 'slow', node: 2, factor: 4, start: 150, end: 350 },
+      { kind: 'partition', nodes: [5, 6], start: 300, end: 450 },
+    ],
+  },
+  'time-idle-source': {
+    title: 'Time-based: an idle source produces late events',
+    summary:
+      'n2 is partitioned from 150 ms. After the idle timeout the watermark moves on without it, so its backlog arrives late once the partition heals.',
+    protocol: 'time',
+    nodeCount: 4,
+    seed: 5,
+    duration: 600,
+    faults: [{ kind: 'partition', nodes: [2], start: 150, end: 380 }],
+  },
+};
@@ -0,0 +1,354 @@
+export type Protocol = 'heartbeat' | 'consensus' | 'gossip' | 'time';
+
+export type Fault =
+  | { kind: 'partition'; nodes: number[]; start: number; end: number }
+  | { kind: 'slow'; node: number; factor: number; start: number; end: number }
+  | { kind: 'crash'; node: number; start: number; end: number };
+
+export type FaultKind = Fault['kind'];
+
+export interface SimulationConfig {
+  protocol: Protocol;
+  nodeCount: number;
+  seed: number;
+  duration: number;
+  faults: Fault[];
+}
+
+export interface NodeSnapshot {
+  progress: number;
+  // The LWM as this node currently knows it
+  lwm: number;
+  crashed: boolean;
+  slow: boolean;
+  partitioned: boolean;
+  // Left out of the LWM computation (idle source in the time-based protocol)
+  excluded: boolean;
+}
+
+export interface Sample {
+  time: number;
+  nodes: NodeSnapshot[];
+  // The LWM the protocol publishes for the whole cluster
+  lwm: number;
+  // The true minimum progress, which the LWM must never pass to be safe
+  minProgress: number;
+  sent: number;
+  dropped: number;
+  late: number;
+}
+
+export interface ProtocolDefinition {
+  name: string;
+  description: string;
+}
+
+export const protocols: Record<Protocol, ProtocolDefinition> = {
+  heartbeat: {
+    name: 'Heartbeat',
+    description: 'Every node reports its progress to coordinator n0, which broadcasts the minimum of the last reports.',
+  },
+  consensus: {
+    name: 'Consensus',
+    description: 'Leader n0 proposes the minimum known progress each round and commits it once a majority acknowledges.',
+  },
+  gossip: {
+    name: 'Gossip',
+    description: 'Nodes push their view of everyone\'s progress to a random peer; each node takes the minimum of its own view.',
+  },
+  time: {
+    name: 'Time-based',
+    description: 'Sources report event time to operator n0; the watermark trails the slowest active source and idle sources are skipped.',
+  },
+};
+
+// All times are in simulated milliseconds
+export const PROGRESS_INTERVAL = 10;
+export const PROTOCOL_INTERVAL = 25;
+export const SAMPLE_INTERVAL = 5;
+export const MIN_LATENCY = 2;
+export const MAX_LATENCY = 8;
+export const IDLE_TIMEOUT = 80;
+export const ALLOWED_LATENESS = 10;
+
+type Message =
+  | { kind: 'progress'; progress: number }
+  | { kind: 'lwm'; lwm: number }
+  | { kind: 'propose'; round: number; lwm: number; committed: number }
+  | { kind: 'ack'; round: number; progress: number }
+  | { kind: 'gossip'; view: number[] };
+
+type SimEvent =
+  | { type: 'advance'; node: number }
+  | { type: 'tick'; node: number }
+  | { type: 'deliver'; from: number; to: number; message: Message }
+  | { type: 'sample' };
+
+interface QueuedEvent {
+  time: number;
+  seq: number;
+  event: SimEvent;
+}
+
+interface NodeState {
+  progress: number;
+  lwm: number;
+  // Progress of every node as this node last heard it
+  view: number[];
+  lastHeard: number[];
+  // Highest event time already accounted for by the time-based operator
+  reported: number[];
+}
+
+// mulberry32: small, fast and good enough to make every run reproducible
+export function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+export function isCrashed(faults: Fault[], node: number, time: number): boolean {
+  return faults.some((fault) => fault.kind === 'crash' && fault.node === node && time >= fault.start && time < fault.end);
+}
+
+export function slowFactor(faults: Fault[], node: number, time: number): number {
+  return faults.reduce(
+    (factor, fault) =>
+      fault.kind === 'slow' && fault.node === node && time >= fault.start && time < fault.end
+        ? Math.max(factor, fault.factor)
+        : factor,
+    1,
+  );
+}
+
+export function isPartitioned(faults: Fault[], node: number, time: number): boolean {
+  return faults.some(
+    (fault) => fault.kind === 'partition' && fault.nodes.includes(node) && time >= fault.start && time < fault.end,
+  );
+}
+
+// Two nodes can talk unless an active partition puts them on different sides
+export function canReach(faults: Fault[], from: number, to: number, time: number): boolean {
+  return faults.every(
+    (fault) =>
+      fault.kind !== 'partition' ||
+      time < fault.start ||
+      time >= fault.end ||
+      fault.nodes.includes(from) === fault.nodes.includes(to),
+  );
+}
+
+export function simulate(config: SimulationConfig): Sample[] {
+  const { protocol, nodeCount, duration, faults } = config;
+  const random = createRandom(config.seed);
+  const queue: QueuedEvent[] = [];
+  const samples: Sample[] = [];
+  let seq = 0;
+  let sent = 0;
+  let dropped = 0;
+  let late = 0;
+  let round = 0;
+  let acks = new Set<number>();
+  let proposal = 0;
+
+  const nodes: NodeState[] = Array.from({ length: nodeCount }, () => ({
+    progress: 0,
+    lwm: 0,
+    view: new Array(nodeCount).fill(0),
+    lastHeard: new Array(nodeCount).fill(0),
+    reported: new Array(nodeCount).fill(0),
+  }));
+
+  // Ordered by time, then by insertion so equal timestamps stay deterministic
+  const schedule = (time: number, event: SimEvent) => {
+    const entry = { time, seq: seq++, event };
+    let low = 0;
+    let high = queue.length;
+    while (low < high) {
+      const mid = (low + high) >> 1;
+      if (queue[mid].time < time || (queue[mid].time === time && queue[mid].seq < entry.seq)) {
+        low = mid + 1;
+      } else {
+        high = mid;
+      }
+    }
+    queue.splice(low, 0, entry);
+  };
+
+  const send = (time: number, from: number, to: number, message: Message) => {
+    sent++;
+    const latency = MIN_LATENCY + Math.floor(random() * (MAX_LATENCY - MIN_LATENCY + 1));
+    schedule(time + latency, { type: 'deliver', from, to, message });
+  };
+
+  const broadcast = (time: number, from: number, message: Message) => {
+    for (let to = 0; to < nodeCount; to++) {
+      if (to !== from) {
+        send(time, from, to, message);
+      }
+    }
+  };
+
+  const isIdle = (source: number, time: number) => source !== 0 && time - nodes[0].lastHeard[source] > IDLE_TIMEOUT;
+
+  // The time-based operator counts entries that arrive below an already published watermark as late
+  const reportEventTime = (source: number, progress: number) => {
+    const operator = nodes[0];
+    const from = operator.reported[source];
+    if (progress <= from) {
+      return;
+    }
+    late += Math.max(0, Math.min(progress, operator.lwm) - from);
+    operator.reported[source] = progress;
+    operator.view[source] = progress;
+  };
+
+  const tick = (time: number, id: number) => {
+    const node = nodes[id];
+    node.view[id] = node.progress;
+    switch (protocol) {
+      case 'heartbeat':
+        if (id === 0) {
+          node.lwm = Math.max(node.lwm, Math.min(...node.view));
+          broadcast(time, 0, { kind: 'lwm', lwm: node.lwm });
+        } else {
+          send(time, id, 0, { kind: 'progress', progress: node.progress });
+        }
+        break;
+      case 'consensus':
+        if (id === 0) {
+          round++;
+          acks = new Set([0]);
+          proposal = Math.min(...node.view);
+          broadcast(time, 0, { kind: 'propose', round, lwm: proposal, committed: node.lwm });
+        }
+        break;
+      case 'gossip': {
+        const peer = (id + 1 + Math.floor(random() * (nodeCount - 1))) % nodeCount;
+        node.lwm = Math.max(node.lwm, Math.min(...node.view));
+        send(time, id, peer, { kind: 'gossip', view: [...node.view] });
+        break;
+      }
+      case 'time':
+        if (id === 0) {
+          reportEventTime(0, node.progress);
+          const active = node.view.filter((_, source) => !isIdle(source, time));
+          node.lwm = Math.max(node.lwm, Math.min(...active) - ALLOWED_LATENESS);
+          broadcast(time, 0, { kind: 'lwm', lwm: node.lwm });
+        } else {
+          send(time, id, 0, { kind: 'progress', progress: node.progress });
+        }
+        break;
+    }
+  };
+
+  const deliver = (time: number, from: number, to: number, message: Message) => {
+    const node = nodes[to];
+    switch (message.kind) {
+      case 'progress':
+        node.lastHeard[from] = time;
+        if (protocol === 'time') {
+          reportEventTime(from, message.progress);
+        } else {
+          node.view[from] = Math.max(node.view[from], message.progress);
+        }
+        break;
+      case 'lwm':
+        node.lwm = Math.max(node.lwm, message.lwm);
+        break;
+      case 'propose':
+        // Followers learn the last committed value with the next proposal
+        node.lwm = Math.max(node.lwm, message.committed);
+        send(time, to, from, { kind: 'ack', round: message.round, progress: node.progress });
+        break;
+      case 'ack':
+        node.view[from] = Math.max(node.view[from], message.progress);
+        if (message.round === round) {
+          acks.add(from);
+          // Commit as soon as a majority has accepted this round's proposal
+          if (acks.size * 2 > nodeCount) {
+            node.lwm = Math.max(node.lwm, proposal);
+          }
+        }
+        break;
+      case 'gossip':
+        message.view.forEach((progress, i) => {
+          node.view[i] = Math.max(node.view[i], progress);
+        });
+        node.lwm = Math.max(node.lwm, Math.min(...node.view));
+        break;
+    }
+  };
+
+  const publishedLwm = (time: number): number => {
+    if (protocol === 'gossip') {
+      const up = nodes.filter((_, id) => !isCrashed(faults, id, time));
+      return up.length > 0 ? Math.min(...up.map((node) => node.lwm)) : samples[samples.length - 1]?.lwm ?? 0;
+    }
+    return nodes[0].lwm;
+  };
+
+  const sample = (time: number) => {
+    samples.push({
+      time,
+      nodes: nodes.map((node, id) => ({
+        progress: node.progress,
+        lwm: node.lwm,
+        crashed: isCrashed(faults, id, time),
+        slow: slowFactor(faults, id, time) > 1,
+        partitioned: isPartitioned(faults, id, time),
+        excluded: protocol === 'time' && isIdle(id, time),
+      })),
+      lwm: publishedLwm(time),
+      minProgress: Math.min(...nodes.map((node) => node.progress)),
+      sent,
+      dropped,
+      late,
+    });
+  };
+
+  for (let id = 0; id < nodeCount; id++) {
+    // Stagger the nodes so their timers do not fire in lockstep
+    schedule(Math.floor(random() * PROGRESS_INTERVAL), { type: 'advance', node: id });
+    schedule(Math.floor(random() * PROTOCOL_INTERVAL), { type: 'tick', node: id });
+  }
+  schedule(0, { type: 'sample' });
+
+  while (queue.length > 0 && queue[0].time <= duration) {
+    const { time, event } = queue.shift() as QueuedEvent;
+    switch (event.type) {
+      case 'advance': {
+        const factor = slowFactor(faults, event.node, time);
+        if (!isCrashed(faults, event.node, time)) {
+          nodes[event.node].progress += 1 + Math.floor(random() * 3);
+        }
+        schedule(time + PROGRESS_INTERVAL * factor, event);
+        break;
+      }
+      case 'tick':
+        if (!isCrashed(faults, event.node, time)) {
+          tick(time, event.node);
+        }
+        schedule(time + PROTOCOL_INTERVAL, event);
+        break;
+      case 'deliver':
+        if (isCrashed(faults, event.to, time) || !canReach(faults, event.from, event.to, time)) {
+          dropped++;
+        } else {
+          deliver(time, event.from, event.to, event.message);
+        }
+        break;
+      case 'sample':
+        sample(time);
+        schedule(time + SAMPLE_INTERVAL, event);
+        break;
+    }
+  }
+
+  return samples;
+}
@@ -0,0 +1,68 @@
+import type { QuizQuestion } from './types';
+
+// single: chosen option, multiple: chosen options, order: item indexes as arranged, numeric: raw input
+export type Answer = number | null | number[] | string;
+
+function hash(text: string): number {
+  let value = 0;
+  for (let i = 0; i < text.length; i++) {
+    value = (Math.imul(value, 31) + text.charCodeAt(i)) | 0;
+  }
+  return value >>> 0;
+}
+
+// Deterministic so the server render and hydration agree, and never already solved
+export function scrambledOrder(items: string[]): number[] {
+  const order = items.map((_, i) => i);
+  let seed = hash(items.join('\n'));
+  for (let i = order.length - 1; i > 0; i--) {
+    seed = (Math.imul(seed, 1103515245) + 12345) >>> 0;
+    const j = seed % (i + 1);
+    [order[i], order[j]] = [order[j], order[i]];
+  }
+  if (order.every((item, i) => item === i)) {
+    order.reverse();
+  }
+  return order;
+}
+
+export function initialAnswer(question: QuizQuestion): Answer {
+  switch (question.type) {
+    case 'single':
+      return null;
+    case 'multiple':
+      return [];
+    case 'order':
+      return scrambledOrder(question.items);
+    case 'numeric':
+      return '';
+  }
+}
+
+export function isAnswered(question: QuizQuestion, answer: Answer): boolean {
+  switch (question.type) {
+    case 'single':
+      return answer !== null;
+    case 'multiple':
+      return (answer as number[]).length > 0;
+    case 'order':
+      return true;
+    case 'numeric':
+      return (answer as string).trim() !== '' && Number.isFinite(Number(answer));
+  }
+}
+
+export function isCorrect(question: QuizQuestion, answer: Answer): boolean {
+  switch (question.type) {
+    case 'single':
+      return answer !== null && question.options[answer as number]?.correct === true;
+    case 'multiple': {
+      const chosen = answer as number[];
+      return question.options.every((option, i) => (option.correct === true) === chosen.includes(i));
+    }
+    case 'order':
+      return (answer as number[]).every((item, i) => item === i);
+    case 'numeric':
+      return Math.abs(Number(answer) - question.answer) <= (question.tolerance ?? 0);
+  }
+}
@@ -0,0 +1,243 @@
+import React, { useState, useId } from 'react';
+import { useLocation } from '@docusaurus/router';
+import { initialAnswer, isAnswered, isCorrect, type Answer } from './grading';
+import { useQuizResult } from './useQuizResult';
+import type { QuizQuestion, QuestionType } from './types';
+import styles from './Quiz.module.css';
+
+interface QuizProps {
+  questions: QuizQuestion[];
+  title?: string;
+  // Tells several quizzes on the same page apart in stored results
+  id?: string;
+  className?: string;
+}
+
+interface QuestionCardProps {
+  question: QuizQuestion;
+  number: number;
+  answer: Answer;
+  checked: boolean;
+  onAnswer: (answer: Answer) => void;
+  onCheck: () => void;
+}
+
+const TYPE_HINTS: Record<QuestionType, string> = {
+  single: 'Choose one answer',
+  multiple: 'Choose all that apply',
+  order: 'Put the steps in order',
+  numeric: 'Enter a number',
+};
+
+function moveItem(order: number[], from: number, to: number): number[] {
+  const next = [...order];
+  [next[from], next[to]] = [next[to], next[from]];
+  return next;
+}
+
+const QuestionCard: React.FC<QuestionCardProps> = ({ question, number, answer, checked, onAnswer, onCheck }) => {
+  const correct = checked && isCorrect(question, answer);
+  const name = useId();
+
+  const renderOptions = () => {
+    if (question.type !== 'single' && question.type !== 'multiple') {
+      return null;
+    }
+    const chosen = question.type === 'single' ? [answer as number] : (answer as number[]);
+    return (
+      <ul className={styles.options}>
+        {question.options.map((option, i) => {
+          const selected = chosen.includes(i);
+          const classes = [styles.option];
+          if (checked && option.correct) {
+            classes.push(styles.correctOption);
+          } else if (checked && selected) {
+            classes.push(styles.wrongOption);
+          }
+          return (
+            <li key={i} className={classes.join(' ')}>
+              <label>
+                <input
+                  type={question.type === 'single' ? 'radio' : 'checkbox'}
+                  name={name}
+                  checked={selected}
+                  disabled={checked}
+                  onChange={() =>
+                    onAnswer(
+                      question.type === 'single'
+                        ? i
+                        : selected
+                          ? chosen.filter((index) => index !== i)
+                          : [...chosen, i],
+                    )
+                  }
+                />
+                {option.text}
+              </label>
+              {checked && option.explanation && (selected || option.correct) && (
+                <p className={styles.optionExplanation}>{option.explanation}</p>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+    );
+  };
+
+  const renderOrdering = () => {
+    if (question.type !== 'order') {
+      return null;
+    }
+    const order = answer as number[];
+    return (
+      <ol className={styles.ordering}>
+        {order.map((item, position) => {
+          const classes = [styles.orderItem];
+          if (checked) {
+            classes.push(item === position ? styles.correctOption : styles.wrongOption);
+          }
+          return (
+            <li key={item} className={classes.join(' ')}>
+              <span>{question.items[item]}</span>
+              {!checked && (
+                <span className={styles.moveButtons}>
+                  <button
+                    className={styles.moveButton}
+                    onClick={() => onAnswer(moveItem(order, position, position - 1))}
+                    disabled={position === 0}
+                    aria-label={`Move "${question.items[item]}" up`}
+                  >
+                    ↑
+                  </button>
+                  <button
+                    className={styles.moveButton}
+                    onClick={() => onAnswer(moveItem(order, position, position + 1))}
+                    disabled={position === order.length - 1}
+                    aria-label={`Move "${question.items[item]}" down`}
+                  >
+                    ↓
+                  </button>
+                </span>
+              )}
+              {checked && item !== position && <span className={styles.expected}>should be step {item + 1}</span>}
+            </li>
+          );
+        })}
+      </ol>
+    );
+  };
+
+  const renderNumeric = () => {
+    if (question.type !== 'numeric') {
+      return null;
+    }
+    return (
+      <div className={styles.numeric}>
+        <input
+          type="number"
+          inputMode="decimal"
+          className={styles.numericInput}
+          value={answer as string}
+          disabled={checked}
+          onChange={(e) => onAnswer(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && isAnswered(question, answer) && onCheck()}
+          aria-label={`Answer to question ${number}`}
+        />
+        {question.unit && <span>{question.unit}</span>}
+        {checked && !correct && (
+          <span className={styles.expected}>
+            Expected {question.answer}
+            {question.tolerance ? ` ± ${question.tolerance}` : ''}
+            {question.unit ? ` ${question.unit}` : ''}
+          </span>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <fieldset className={styles.question}>
+      <legend className={styles.prompt}>
+        <span className={styles.number}>{number}.</span> {question.prompt}
+      </legend>
+      <p className={styles.hint}>{TYPE_HINTS[question.type]}</p>
+      {renderOptions()}
+      {renderOrdering()}
+      {renderNumeric()}
+      {checked ? (
+        <div className={`${styles.feedback} ${correct ? styles.correct : styles.incorrect}`} role="status">
+          <strong>{correct ? 'Correct' : 'Not quite'}</strong>
+          {question.explanation && <p>{question.explanation}</p>}
+        </div>
+      ) : (
+        <button className={styles.checkButton} onClick={onCheck} disabled={!isAnswered(question, answer)}>
+          Check
+        </button>
+      )}
+    </fieldset>
+  );
+};
+
+const Quiz: React.FC<QuizProps> = ({ questions, title = 'Check your understanding', id, className }) => {
+  const { pathname } = useLocation();
+  const [result, saveResult] = useQuizResult(id ? `${pathname}#${id}` : pathname);
+  const [answers, setAnswers] = useState<Answer[]>(() => questions.map(initialAnswer));
+  const [checked, setChecked] = useState<boolean[]>(() => questions.map(() => false));
+
+  const score = questions.filter((question, i) => checked[i] && isCorrect(question, answers[i])).length;
+  const isComplete = checked.every(Boolean);
+
+  const check = (index: number) => {
+    const next = checked.map((current, i) => current || i === index);
+    setChecked(next);
+    // Store the score once the last question has been checked
+    if (next.every(Boolean)) {
+      saveResult(questions.filter((question, i) => isCorrect(question, answers[i])).length, questions.length);
+    }
+  };
+
+  const retry = () => {
+    setAnswers(questions.map(initialAnswer));
+    setChecked(questions.map(() => false));
+  };
+
+  return (
+    <section className={`${styles.quiz} ${className || ''}`} aria-label={title}>
+      <div className={styles.header}>
+        <span className={styles.title}>{title}</span>
+        {result && (
+          <span className={styles.stored}>
+            Last score <strong>{result.score}/{result.total}</strong> · best <strong>{result.best}/{result.total}</strong>
+          </span>
+        )}
+      </div>
+
+      {questions.map((question, i) => (
+        <QuestionCard
+          key={i}
+          question={question}
+          number={i + 1}
+          answer={answers[i]}
+          checked={checked[i]}
+          onAnswer={(answer) => setAnswers(answers.map((current, index) => (index === i ? answer : current)))}
+          onCheck={() => check(i)}
+        />
+      ))}
+
+      <div className={styles.summary}>
+        <span>
+          {isComplete
+            ? `You scored ${score} out of ${questions.length}.`
+            : `${checked.filter(Boolean).length} of ${questions.length} answered`}
+        </span>
+        {isComplete && (
+          <button className={styles.textButton} onClick={retry}>
+            Try again
+          </button>
+        )}
+      </div>
+    </section>
+  );
+};
+
+export default Quiz;
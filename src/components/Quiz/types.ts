@@ -0,0 +1,41 @@
+export interface ChoiceOption {
+  text: string;
+  correct?: boolean;
+  // Shown once the question is checked, next to this option
+  explanation?: string;
+}
+
+interface BaseQuestion {
+  prompt: string;
+  // Shown once the question is checked, whatever the answer
+  explanation?: string;
+}
+
+export interface SingleChoiceQuestion extends BaseQuestion {
+  type: 'single';
+  options: ChoiceOption[];
+}
+
+export interface MultipleChoiceQuestion extends BaseQuestion {
+  type: 'multiple';
+  options: ChoiceOption[];
+}
+
+export interface OrderingQuestion extends BaseQuestion {
+  type: 'order';
+  // Listed in the correct order; the quiz shuffles them
+  items: string[];
+}
+
+export interface NumericQuestion extends BaseQuestion {
+  type: 'numeric';
+  answer: number;
+  tolerance?: number;
+  unit?: string;
+}
+
+export type QuizQuestion = SingleChoiceQuestion | MultipleChoiceQuestion | OrderingQuestion | NumericQuestion;
+
+export type QuestionType = QuizQuestion['type'];
+
+export const QUESTION_TYPES: QuestionType[] = ['single', 'multiple', 'order', 'numeric'];
@@ -0,0 +1,42 @@
+import { useCallback } from 'react';
+import { createPersistentStore, usePersistentStore } from '../../utils/persistentStore';
+
+export interface QuizResult {
+  score: number;
+  total: number;
+  best: number;
+  attempts: number;
+  completedAt: string;
+}
+
+const resultsStore = createPersistentStore<Record<string, QuizResult>>(
+  'quiz-results',
+  (stored) => {
+    const results: unknown = JSON.parse(stored);
+    return typeof results === 'object' && results !== null ? (results as Record<string, QuizResult>) : null;
+  },
+  {},
+);
+
+// Results are keyed by page, so every doc keeps its own score history
+export function useQuizResult(quizKey: string): [QuizResult | null, (score: number, total: number) => void] {
+  const results = usePersistentStore(resultsStore, null);
+
+  const saveResult = useCallback(
+    (score: number, total: number) => {
+      const previous = resultsStore.read()[quizKey];
+      const next: QuizResult = {
+        score,
+        total,
+        // A changed quiz resets the best score, it would not be comparable
+        best: previous && previous.total === total ? Math.max(previous.best, score) : score,
+        attempts: (previous?.attempts ?? 0) + 1,
+        completedAt: new Date().toISOString(),
+      };
+      resultsStore.write({ ...resultsStore.read(), [quizKey]: next });
+    },
+    [quizKey],
+  );
+
+  return [results?.[quizKey] ?? null, saveResult];
+}
@@ -0,0 +1,200 @@
+import React, { useState, useEffect } from 'react';
+import { useActivePlugin } from '@docusaurus/plugin-content-docs/client';
+import { useReadingMode } from '../ReadingMode/useReadingMode';
+import { useTypographyPreferences } from './useTypographyPreferences';
+import {
+  CODE_SCALES,
+  CONTENT_WIDTHS,
+  DEFAULT_PREFERENCES,
+  FONT_FAMILIES,
+  FONT_SIZE_RANGE,
+  LINE_HEIGHTS,
+  type ContentWidth,
+  type FontFamily,
+} from './preferences';
+import styles from './ReaderPreferences.module.css';
+
+interface ReaderPreferencesProps {
+  className?: string;
+}
+
+// Mounted once in Root, so the same panel serves docs, blog and pages
+const ReaderPreferences: React.FC<ReaderPreferencesProps> = ({ className }) => {
+  const [preferences, updatePreferences] = useTypographyPreferences();
+  const [isVisible, setIsVisible] = useState(true);
+  const [{ isActive: isReadingMode }, setReadingMode] = useReadingMode();
+  // Reading mode only changes doc pages
+  const isDocPage = useActivePlugin() !== undefined;
+  const { fontSize } = preferences;
+
+  useEffect(() => {
+    const savedVisibility = localStorage.getItem('font-control-visibility');
+    if (savedVisibility !== null) {
+      setIsVisible(savedVisibility === 'true');
+    }
+  }, []);
+
+  const isDefault = (Object.keys(DEFAULT_PREFERENCES) as (keyof typeof DEFAULT_PREFERENCES)[]).every(
+    (key) => preferences[key] === DEFAULT_PREFERENCES[key],
+  );
+
+  const toggleVisibility = () => {
+    const newVisibility = !isVisible;
+    setIsVisible(newVisibility);
+    localStorage.setItem('font-control-visibility', newVisibility.toString());
+  };
+
+  const toggleReadingMode = () => setReadingMode({ isActive: !isReadingMode });
+
+  if (!isVisible) {
+    return (
+      <button
+        className={styles.toggleButton}
+        onClick={toggleVisibility}
+        title="Show reading preferences"
+        aria-label="Show reading preferences"
+      >
+        <svg viewBox="0 0 24 24" className={styles.toggleIcon}>
+          <path d="M9 7h6v2H9zm0 4h6v2H9z"/>
+        </svg>
+      </button>
+    );
+  }
+
+  return (
+    <div className={`${styles.readerPreferences} ${className || ''}`} role="region" aria-label="Reading preferences">
+      <div className={styles.header}>
+        <span className={styles.title}>Typography</span>
+        <div className={styles.headerRight}>
+          <span className={styles.currentSize}>{fontSize}px</span>
+          <button
+            className={styles.hideButton}
+            onClick={toggleVisibility}
+            title="Hide reading preferences"
+            aria-label="Hide reading preferences"
+          >
+            ×
+          </button>
+        </div>
+      </div>
+
+      <div className={styles.controls}>
+        <button
+          className={styles.button}
+          onClick={() => updatePreferences({ fontSize: fontSize - 1 })}
+          disabled={fontSize <= FONT_SIZE_RANGE.min}
+          title="Decrease font size (A-)"
+          aria-label="Decrease font size"
+        >
+          <svg viewBox="0 0 24 24" className={styles.icon}>
+            <path d="M19 13H5v-2h14v2z"/>
+          </svg>
+        </button>
+
+        <div className={styles.sizeDisplay}>
+          <span
+            className={styles.sizeIndicator}
+            style={{ fontSize: `${12 + (fontSize - FONT_SIZE_RANGE.min) * 0.5}px` }}
+          >
+            A
+          </span>
+        </div>
+
+        <button
+          className={styles.button}
+          onClick={() => updatePreferences({ fontSize: fontSize + 1 })}
+          disabled={fontSize >= FONT_SIZE_RANGE.max}
+          title="Increase font size (A+)"
+          aria-label="Increase font size"
+        >
+          <svg viewBox="0 0 24 24" className={styles.icon}>
+            <path d="M19 13h-6v6h-2v-6H5v-2h6V5h2v6h6v2z"/>
+          </svg>
+        </button>
+      </div>
+
+      <div className={styles.fields}>
+        <label className={styles.field}>
+          <span>Font</span>
+          <select
+            value={preferences.fontFamily}
+            onChange={(e) => updatePreferences({ fontFamily: e.target.value as FontFamily })}
+          >
+            {FONT_FAMILIES.map((option) => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+          </select>
+        </label>
+        <label className={styles.field}>
+          <span>Line spacing</span>
+          <select
+            value={preferences.lineHeight}
+            onChange={(e) => updatePreferences({ lineHeight: Number(e.target.value) })}
+          >
+            {LINE_HEIGHTS.map((option) => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+          </select>
+        </label>
+        <label className={styles.field}>
+          <span>Width</span>
+          <select
+            value={preferences.contentWidth}
+            onChange={(e) => updatePreferences({ contentWidth: e.target.value as ContentWidth })}
+          >
+            {CONTENT_WIDTHS.map((option) => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+          </select>
+        </label>
+        <label className={styles.field}>
+          <span>Code size</span>
+          <select
+            value={preferences.codeScale}
+            onChange={(e) => updatePreferences({ codeScale: Number(e.target.value) })}
+          >
+            {CODE_SCALES.map((scale) => (
+              <option key={scale} value={scale}>{Math.round(scale * 100)}%</option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      {isDocPage && (
+        <div className={styles.readingSection}>
+          <div className={styles.readingModeToggle}>
+            <span className={styles.readingModeLabel}>Reading Mode</span>
+            <div
+              className={`${styles.readingModeSwitch} ${isReadingMode ? styles.active : ''}`}
+              onClick={toggleReadingMode}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter' || e.key === ' ') {
+                  e.preventDefault();
+                  toggleReadingMode();
+                }
+              }}
+              role="switch"
+              aria-checked={isReadingMode}
+              aria-label="Toggle reading mode"
+              tabIndex={0}
+            >
+              <div className={styles.readingModeSwitchHandle} />
+            </div>
+          </div>
+        </div>
+      )}
+
+      {!isDefault && (
+        <button
+          className={styles.resetButton}
+          onClick={() => updatePreferences(DEFAULT_PREFERENCES)}
+          title="Reset all typography preferences"
+        >
+          Reset to Default
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default ReaderPreferences;
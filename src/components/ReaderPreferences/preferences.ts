@@ -0,0 +1,97 @@
+export const STORAGE_KEY = 'typography-preferences';
+
+export type ContentWidth = 'narrow' | 'medium' | 'wide' | 'full';
+export type FontFamily = 'sans' | 'serif' | 'dyslexic';
+
+export interface TypographyPreferences {
+  fontSize: number;
+  lineHeight: number;
+  contentWidth: ContentWidth;
+  fontFamily: FontFamily;
+  // Code size relative to the surrounding text
+  codeScale: number;
+}
+
+export const DEFAULT_PREFERENCES: TypographyPreferences = {
+  fontSize: 16,
+  lineHeight: 1.65,
+  contentWidth: 'full',
+  fontFamily: 'sans',
+  codeScale: 0.9,
+};
+
+export const FONT_SIZE_RANGE = { min: 12, max: 24 };
+
+export const LINE_HEIGHTS = [
+  { value: 1.45, label: 'Tight' },
+  { value: 1.65, label: 'Normal' },
+  { value: 1.85, label: 'Relaxed' },
+  { value: 2.1, label: 'Loose' },
+];
+
+export const CONTENT_WIDTHS: { value: ContentWidth; label: string }[] = [
+  { value: 'narrow', label: 'Narrow' },
+  { value: 'medium', label: 'Medium' },
+  { value: 'wide', label: 'Wide' },
+  { value: 'full', label: 'Full' },
+];
+
+export const FONT_FAMILIES: { value: FontFamily; label: string }[] = [
+  { value: 'sans', label: 'Sans-serif' },
+  { value: 'serif', label: 'Serif' },
+  { value: 'dyslexic', label: 'Dyslexia-friendly' },
+];
+
+export const CODE_SCALES = [0.8, 0.9, 1, 1.1];
+
+type PreferenceTarget = { property: string; unit?: string } | { attribute: string };
+
+// Numbers become custom properties and choices become data attributes on <html>,
+// src/css/custom.css turns both into actual styles
+export const PREFERENCE_TARGETS: Record<keyof TypographyPreferences, PreferenceTarget> = {
+  fontSize: { property: '--reader-font-size', unit: 'px' },
+  lineHeight: { property: '--reader-line-height' },
+  codeScale: { property: '--reader-code-scale' },
+  contentWidth: { attribute: 'data-content-width' },
+  fontFamily: { attribute: 'data-font-family' },
+};
+
+export function applyPreferences(preferences: TypographyPreferences, root: HTMLElement = document.documentElement) {
+  for (const [key, target] of Object.entries(PREFERENCE_TARGETS)) {
+    const value = String(preferences[key as keyof TypographyPreferences]);
+    if ('property' in target) {
+      root.style.setProperty(target.property, value + (target.unit ?? ''));
+    } else {
+      root.setAttribute(target.attribute, value);
+    }
+  }
+}
+
+// Only keeps known keys with values of the right kind, so a stale entry cannot break the page
+export function parsePreferences(stored: unknown): TypographyPreferences {
+  const preferences = { ...DEFAULT_PREFERENCES };
+  if (typeof stored !== 'object' || stored === null) {
+    return preferences;
+  }
+  const candidate = stored as Partial<Record<keyof TypographyPreferences, unknown>>;
+  if (
+    typeof candidate.fontSize === 'number' &&
+    candidate.fontSize >= FONT_SIZE_RANGE.min &&
+    candidate.fontSize <= FONT_SIZE_RANGE.max
+  ) {
+    preferences.fontSize = candidate.fontSize;
+  }
+  if (LINE_HEIGHTS.some((option) => option.value === candidate.lineHeight)) {
+    preferences.lineHeight = candidate.lineHeight as number;
+  }
+  if (CONTENT_WIDTHS.some((option) => option.value === candidate.contentWidth)) {
+    preferences.contentWidth = candidate.contentWidth as ContentWidth;
+  }
+  if (FONT_FAMILIES.some((option) => option.value === candidate.fontFamily)) {
+    preferences.fontFamily = candidate.fontFamily as FontFamily;
+  }
+  if (CODE_SCALES.includes(candidate.codeScale as number)) {
+    preferences.codeScale = candidate.codeScale as number;
+  }
+  return preferences;
+}
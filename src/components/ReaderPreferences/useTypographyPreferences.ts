@@ -0,0 +1,41 @@
+import { useEffect, useCallback } from 'react';
+import { createPersistentStore, usePersistentStore } from '../../utils/persistentStore';
+import { DEFAULT_PREFERENCES, STORAGE_KEY, applyPreferences, parsePreferences, type TypographyPreferences } from './preferences';
+
+// Font size preference of the old per-element control, carried over once
+const LEGACY_FONT_SIZE_KEY = 'article-font-size';
+
+const preferencesStore = createPersistentStore(STORAGE_KEY, (stored) => parsePreferences(JSON.parse(stored)), DEFAULT_PREFERENCES);
+
+function migrateLegacyFontSize() {
+  try {
+    const legacyFontSize = localStorage.getItem(LEGACY_FONT_SIZE_KEY);
+    if (legacyFontSize === null) {
+      return;
+    }
+    localStorage.removeItem(LEGACY_FONT_SIZE_KEY);
+    if (localStorage.getItem(STORAGE_KEY) === null) {
+      preferencesStore.write(parsePreferences({ fontSize: parseInt(legacyFontSize, 10) }));
+    }
+  } catch {
+    // Nothing to carry over without storage
+  }
+}
+
+export function useTypographyPreferences(): [TypographyPreferences, (changes: Partial<TypographyPreferences>) => void] {
+  // Runs before the store is first read below
+  useEffect(() => {
+    migrateLegacyFontSize();
+    // The head script already applied them, this also repairs anything it could not validate
+    applyPreferences(preferencesStore.read());
+    return preferencesStore.subscribe(applyPreferences);
+  }, []);
+
+  const preferences = usePersistentStore(preferencesStore);
+
+  const updatePreferences = useCallback((changes: Partial<TypographyPreferences>) => {
+    preferencesStore.write(parsePreferences({ ...preferencesStore.read(), ...changes }));
+  }, []);
+
+  return [preferences, updatePreferences];
+}
@@ -0,0 +1,56 @@
+import React, { useEffect } from 'react';
+import { ThemeClassNames } from '@docusaurus/theme-common';
+import { applyReadingMode, useReadingMode } from './useReadingMode';
+import styles from './ReadingMode.module.css';
+
+// Mounted once in Root, so the mode carries over client-side route changes
+const ReadingModeBar: React.FC = () => {
+  const [{ isActive, isSepia }, setReadingMode] = useReadingMode();
+
+  useEffect(() => {
+    applyReadingMode({ isActive, isSepia });
+  }, [isActive, isSepia]);
+
+  useEffect(() => {
+    if (!isActive) {
+      return;
+    }
+    const handleKeyDown = (event: KeyboardEvent) => {
+      const target = event.target as HTMLElement;
+      if (
+        event.key !== 'Escape' ||
+        target.closest?.('input, textarea, select') ||
+        // Reading mode only changes doc pages, elsewhere Esc stays free
+        !document.documentElement.classList.contains(ThemeClassNames.page.docsDocPage)
+      ) {
+        return;
+      }
+      setReadingMode({ isActive: false });
+    };
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, [isActive, setReadingMode]);
+
+  if (!isActive) {
+    return null;
+  }
+
+  return (
+    <div className={styles.exitBar} role="toolbar" aria-label="Reading mode">
+      <span className={styles.label}>Reading mode</span>
+      <button
+        className={`${styles.barButton} ${isSepia ? styles.activeButton : ''}`}
+        onClick={() => setReadingMode({ isSepia: !isSepia })}
+        aria-pressed={isSepia}
+        title="Warm sepia background"
+      >
+        Sepia
+      </button>
+      <button className={styles.barButton} onClick={() => setReadingMode({ isActive: false })} title="Exit reading mode (Esc)">
+        Exit <kbd className={styles.kbd}>Esc</kbd>
+      </button>
+    </div>
+  );
+};
+
+export default ReadingModeBar;
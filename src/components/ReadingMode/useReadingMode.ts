@@ -0,0 +1,36 @@
+import { useCallback } from 'react';
+import { createPersistentStore, usePersistentStore } from '../../utils/persistentStore';
+
+export const READING_MODE_CLASS = 'reading-mode-active';
+export const SEPIA_CLASS = 'reading-mode-sepia';
+// Give this class to anything that should disappear while reading
+export const HIDDEN_IN_READING_MODE = 'reading-mode-hidden';
+
+export interface ReadingModeState {
+  isActive: boolean;
+  isSepia: boolean;
+}
+
+// The exit bar and the reading preferences panel subscribe here
+const activeStore = createPersistentStore('reading-mode', (stored) => stored === 'true', false, { serialize: String });
+const sepiaStore = createPersistentStore('reading-mode-sepia', (stored) => stored === 'true', false, { serialize: String });
+
+// Classes live on <body>, which survives client-side route changes
+export function applyReadingMode({ isActive, isSepia }: ReadingModeState) {
+  document.body.classList.toggle(READING_MODE_CLASS, isActive);
+  document.body.classList.toggle(SEPIA_CLASS, isActive && isSepia);
+}
+
+export function useReadingMode(): [ReadingModeState, (changes: Partial<ReadingModeState>) => void] {
+  const isActive = usePersistentStore(activeStore);
+  const isSepia = usePersistentStore(sepiaStore);
+
+  const updateState = useCallback((changes: Partial<ReadingModeState>) => {
+    const state = { isActive: activeStore.read(), isSepia: sepiaStore.read(), ...changes };
+    activeStore.write(state.isActive);
+    sepiaStore.write(state.isSepia);
+    applyReadingMode(state);
+  }, []);
+
+  return [{ isActive, isSepia }, updateState];
+}
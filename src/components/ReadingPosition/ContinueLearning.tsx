@@ -0,0 +1,55 @@
+import React from 'react';
+import Link from '@docusaurus/Link';
+import { useAllDocsData } from '@docusaurus/plugin-content-docs/client';
+import { useLearningProgress } from '../LearningProgress/useLearningProgress';
+import { describePosition, useReadingPositions } from './useReadingPosition';
+import styles from './ReadingPosition.module.css';
+
+interface ContinueLearningProps {
+  limit?: number;
+  className?: string;
+}
+
+// Recently opened docs that are not completed yet, newest first
+const ContinueLearning: React.FC<ContinueLearningProps> = ({ limit = 3, className }) => {
+  const positions = useReadingPositions();
+  const completed = useLearningProgress();
+  // Current paths, so renamed or removed docs drop out instead of linking to a 404
+  const docs = useAllDocsData().default.versions.find((version) => version.isLast)?.docs ?? [];
+  const docPaths = new Map(docs.map((doc) => [doc.id, doc.path]));
+
+  const recent = Object.entries(positions)
+    .filter(([docId]) => docPaths.has(docId) && !completed[docId])
+    .sort(([, a], [, b]) => b.openedAt.localeCompare(a.openedAt))
+    .slice(0, limit);
+
+  if (recent.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className={`${styles.continueLearning} ${className || ''}`}>
+      <h2 className={styles.stripTitle}>Continue learning</h2>
+      <div className={styles.stripList}>
+        {recent.map(([docId, position]) => {
+          const path = docPaths.get(docId)!;
+          return (
+            <Link
+              key={docId}
+              to={position.headingId ? `${path}#${position.headingId}` : path}
+              className={styles.stripItem}
+            >
+              <span className={styles.stripDoc}>{position.title}</span>
+              <span className={styles.stripPosition}>{describePosition(position)}</span>
+              <span className={styles.stripDate}>
+                Opened {new Date(position.openedAt).toLocaleDateString()}
+              </span>
+            </Link>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default ContinueLearning;
@@ -0,0 +1,115 @@
+import React, { useEffect, useState } from 'react';
+import { ThemeClassNames } from '@docusaurus/theme-common';
+import {
+  describePosition,
+  readPositions,
+  saveReadingPosition,
+  type ReadingPosition,
+} from './useReadingPosition';
+import styles from './ReadingPosition.module.css';
+
+interface ResumeReadingProps {
+  docId: string;
+  title: string;
+  permalink: string;
+  className?: string;
+}
+
+const HEADINGS = ['h2', 'h3', 'h4'].map((tag) => `.${ThemeClassNames.docs.docMarkdown} ${tag}[id]`).join(', ');
+// A heading counts as reached once it scrolls up under the navbar
+const READ_LINE = 100;
+const SAVE_DELAY = 500;
+
+function pageTop(element: HTMLElement): number {
+  return element.getBoundingClientRect().top + window.scrollY;
+}
+
+function currentPosition(): Pick<ReadingPosition, 'headingId' | 'headingText' | 'offset' | 'progress'> {
+  let heading: HTMLElement | null = null;
+  for (const candidate of Array.from(document.querySelectorAll<HTMLElement>(HEADINGS))) {
+    if (candidate.getBoundingClientRect().top > READ_LINE) {
+      break;
+    }
+    heading = candidate;
+  }
+  const scrollable = document.documentElement.scrollHeight - window.innerHeight;
+  return {
+    headingId: heading?.id ?? null,
+    // The hash link inside the heading renders as a zero-width space
+    headingText: heading?.textContent?.replace(/\u200B/g, '').trim() || null,
+    offset: Math.max(0, Math.round(window.scrollY - (heading ? pageTop(heading) : 0))),
+    progress: scrollable > 0 ? Math.min(1, window.scrollY / scrollable) : 0,
+  };
+}
+
+function scrollToPosition(position: ReadingPosition) {
+  const heading = position.headingId ? document.getElementById(position.headingId) : null;
+  if (heading || !position.headingId) {
+    window.scrollTo({ top: (heading ? pageTop(heading) : 0) + position.offset, behavior: 'smooth' });
+  } else {
+    // The heading was renamed or removed since, fall back to how far down the page the reader was
+    const scrollable = document.documentElement.scrollHeight - window.innerHeight;
+    window.scrollTo({ top: position.progress * scrollable, behavior: 'smooth' });
+  }
+}
+
+// Saves where the reader is in the doc and offers to jump back there on the next visit
+const ResumeReading: React.FC<ResumeReadingProps> = ({ docId, title, permalink, className }) => {
+  const [resumeFrom, setResumeFrom] = useState<ReadingPosition | null>(null);
+
+  useEffect(() => {
+    const saved = readPositions()[docId];
+    // Opening a link to a specific section wins over the saved position
+    const isWorthResuming = saved && !window.location.hash && (saved.headingId !== null || saved.progress >= 0.05);
+    setResumeFrom(isWorthResuming ? saved : null);
+    saveReadingPosition(docId, { title, permalink });
+
+    let timeout: number | undefined;
+    const handleScroll = () => {
+      window.clearTimeout(timeout);
+      timeout = window.setTimeout(() => {
+        // Docusaurus resets the scroll on navigation, which is not the reader's position
+        if (window.scrollY > 0) {
+          saveReadingPosition(docId, { title, permalink, ...currentPosition() });
+        }
+      }, SAVE_DELAY);
+    };
+    window.addEventListener('scroll', handleScroll, { passive: true });
+    return () => {
+      window.clearTimeout(timeout);
+      window.removeEventListener('scroll', handleScroll);
+    };
+  }, [docId, title, permalink]);
+
+  if (!resumeFrom) {
+    return null;
+  }
+
+  const resume = () => {
+    scrollToPosition(resumeFrom);
+    setResumeFrom(null);
+  };
+
+  return (
+    <div className={`${styles.banner} ${className || ''}`} role="status">
+      <button className={styles.resumeButton} onClick={resume}>
+        <svg viewBox="0 0 24 24" className={styles.icon} aria-hidden="true">
+          <path d="M17 3H7c-1.1 0-2 .9-2 2v16l7-3 7 3V5c0-1.1-.9-2-2-2z" />
+        </svg>
+        {resumeFrom.headingText
+          ? `Continue reading from ${describePosition(resumeFrom)}`
+          : `Continue where you left off, ${describePosition(resumeFrom)}`}
+      </button>
+      <button
+        className={styles.dismissButton}
+        onClick={() => setResumeFrom(null)}
+        title="Start from the top"
+        aria-label="Dismiss"
+      >
+        ×
+      </button>
+    </div>
+  );
+};
+
+export default ResumeReading;
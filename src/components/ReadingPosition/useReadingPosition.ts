@@ -0,0 +1,93 @@
+import { createPersistentStore, usePersistentStore } from '../../utils/persistentStore';
+
+// Older entries are dropped so storage does not grow with every doc ever opened
+const MAX_POSITIONS = 20;
+
+export interface ReadingPosition {
+  title: string;
+  permalink: string;
+  // Last heading scrolled past, null while still above the first one
+  headingId: string | null;
+  headingText: string | null;
+  // Pixels scrolled past that heading, or past the top of the page
+  offset: number;
+  // Share of the page scrolled, used when the heading no longer exists
+  progress: number;
+  openedAt: string;
+}
+
+// Doc id -> where the reader left it
+export type ReadingPositions = Record<string, ReadingPosition>;
+
+function isReadingPosition(value: unknown): value is ReadingPosition {
+  const candidate = value as Partial<ReadingPosition> | null;
+  return (
+    typeof candidate === 'object' &&
+    candidate !== null &&
+    typeof candidate.title === 'string' &&
+    typeof candidate.permalink === 'string' &&
+    typeof candidate.offset === 'number' &&
+    typeof candidate.progress === 'number' &&
+    typeof candidate.openedAt === 'string'
+  );
+}
+
+// The doc banner and the homepage strip subscribe here
+const positionsStore = createPersistentStore<ReadingPositions>(
+  'reading-positions',
+  (stored) => {
+    const positions: unknown = JSON.parse(stored);
+    if (typeof positions !== 'object' || positions === null) {
+      return null;
+    }
+    return Object.fromEntries(Object.entries(positions).filter(([, position]) => isReadingPosition(position)));
+  },
+  {},
+);
+
+export function readPositions(): ReadingPositions {
+  return positionsStore.read();
+}
+
+function writePositions(positions: ReadingPositions) {
+  positionsStore.write(
+    Object.fromEntries(
+      Object.entries(positions)
+        .sort(([, a], [, b]) => b.openedAt.localeCompare(a.openedAt))
+        .slice(0, MAX_POSITIONS),
+    ),
+  );
+}
+
+export function saveReadingPosition(docId: string, position: Partial<ReadingPosition> & Pick<ReadingPosition, 'title' | 'permalink'>) {
+  const positions = readPositions();
+  writePositions({
+    ...positions,
+    [docId]: {
+      headingId: null,
+      headingText: null,
+      offset: 0,
+      progress: 0,
+      ...positions[docId],
+      ...position,
+      openedAt: new Date().toISOString(),
+    },
+  });
+}
+
+export function clearReadingPosition(docId: string) {
+  const { [docId]: _cleared, ...positions } = readPositions();
+  writePositions(positions);
+}
+
+// "§5.3 Epidemic-Based LWM Protocol" for numbered headings, the plain heading text otherwise
+export function describePosition(position: ReadingPosition): string {
+  if (!position.headingText) {
+    return position.progress > 0 ? `${Math.round(position.progress * 100)}% through` : 'Not started yet';
+  }
+  return /^\d/.test(position.headingText) ? `§${position.headingText}` : position.headingText;
+}
+
+export function useReadingPositions(): ReadingPositions {
+  return usePersistentStore(positionsStore);
+}
@@ -1,4 +1,5 @@
 import React from 'react';
+import { HIDDEN_IN_READING_MODE } from '../ReadingMode/useReadingMode';
 import styles from './ShareButton.module.css';
 
 interface ShareButtonProps {
@@ -63,7 +64,7 @@ const ShareButton: React.FC<ShareButtonProps> = ({
   };
 
   return (
-    <div className={styles.shareContainer}>
+    <div className={`${styles.shareContainer} ${HIDDEN_IN_READING_MODE}`}>
       <h4 className={styles.shareTitle}>Share this article</h4>
       <div className={styles.shareButtons}>
         <button
@@ -0,0 +1,41 @@
+import React from 'react';
+import Link from '@docusaurus/Link';
+import { useSiteOverviewData } from './siteOverview';
+import styles from './SiteOverview.module.css';
+
+interface RecentDocsProps {
+  className?: string;
+}
+
+// Docs with the newest commits, taken from git history at build time
+const RecentDocs: React.FC<RecentDocsProps> = ({ className }) => {
+  const { recent } = useSiteOverviewData();
+
+  if (recent.length === 0) {
+    return null;
+  }
+
+  return (
+    <section className={`${styles.recent} ${className || ''}`}>
+      <h2 className={styles.recentTitle}>Recently added and updated</h2>
+      <ul className={styles.recentList}>
+        {recent.map((doc) => (
+          <li key={doc.id} className={styles.recentItem}>
+            <span className={`${styles.change} ${styles[doc.change]}`}>{doc.change === 'added' ? 'New' : 'Updated'}</span>
+            <Link to={doc.permalink} className={styles.recentLink}>
+              {doc.title}
+            </Link>
+            <span className={styles.recentMeta}>
+              {doc.section} ·{' '}
+              <time dateTime={doc.date}>
+                {new Date(doc.date).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric', timeZone: 'UTC' })}
+              </time>
+            </span>
+          </li>
+        ))}
+      </ul>
+    </section>
+  );
+};
+
+export default RecentDocs;
@@ -0,0 +1,34 @@
+import React from 'react';
+import { formatDuration, useSiteOverviewData } from './siteOverview';
+import styles from './SiteOverview.module.css';
+
+interface SiteStatsProps {
+  className?: string;
+}
+
+const SiteStats: React.FC<SiteStatsProps> = ({ className }) => {
+  const { sections, quizQuestions } = useSiteOverviewData();
+  const docCount = sections.reduce((sum, section) => sum + section.docIds.length, 0);
+  const topicCount = sections.reduce((sum, section) => sum + section.topics.length, 0);
+  const minutes = sections.reduce((sum, section) => sum + section.readingTime, 0);
+
+  const stats = [
+    { value: docCount, label: docCount === 1 ? 'doc' : 'docs' },
+    { value: topicCount, label: topicCount === 1 ? 'topic' : 'topics' },
+    { value: formatDuration(minutes), label: 'of reading' },
+    { value: quizQuestions, label: quizQuestions === 1 ? 'quiz question' : 'quiz questions' },
+  ];
+
+  return (
+    <dl className={`${styles.stats} ${className || ''}`}>
+      {stats.map((stat) => (
+        <div key={stat.label} className={styles.stat}>
+          <dt className={styles.statValue}>{stat.value}</dt>
+          <dd className={styles.statLabel}>{stat.label}</dd>
+        </div>
+      ))}
+    </dl>
+  );
+};
+
+export default SiteStats;
@@ -0,0 +1,52 @@
+import { usePluginData } from '@docusaurus/useGlobalData';
+
+// A category nested in a section, counted only when it has docs
+export interface SectionTopic {
+  label: string;
+  docCount: number;
+}
+
+// A top-level category of the main sidebar
+export interface Section {
+  label: string;
+  // From the category's customProps in sidebars.ts
+  icon?: string;
+  // The category's first doc
+  permalink: string;
+  docIds: string[];
+  // Minutes, summed over the section's docs
+  readingTime: number;
+  topics: SectionTopic[];
+}
+
+export interface RecentDoc {
+  id: string;
+  title: string;
+  permalink: string;
+  section: string;
+  change: 'added' | 'updated';
+  // ISO date of the commit
+  date: string;
+}
+
+export interface SiteOverviewData {
+  sections: Section[];
+  quizQuestions: number;
+  // Newest first; empty outside a git checkout
+  recent: RecentDoc[];
+}
+
+// Collected at build time by plugins/site-overview
+export function useSiteOverviewData(): SiteOverviewData {
+  return usePluginData('site-overview') as SiteOverviewData;
+}
+
+// "45 min" or "3 h 20 min"
+export function formatDuration(minutes: number): string {
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+  if (hours === 0) {
+    return `${rest} min`;
+  }
+  return rest === 0 ? `${hours} h` : `${hours} h ${rest} min`;
+}
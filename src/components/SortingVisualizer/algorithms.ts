@@ -0,0 +1,354 @@
+export type SortingAlgorithm =
+  | 'bubble'
+  | 'selection'
+  | 'insertion'
+  | 'merge'
+  | 'quick'
+  | 'heap';
+
+export interface SortStep {
+  array: number[];
+  comparing: number[];
+  swapping: number[];
+  sorted: number[];
+  range?: [number, number];
+  pivot?: number;
+  line: number;
+  comparisons: number;
+  swaps: number;
+  description: string;
+}
+
+export interface AlgorithmDefinition {
+  name: string;
+  // Label for the second counter - not every algorithm swaps
+  moveLabel: string;
+  pseudoCode: string[];
+  run: (recorder: StepRecorder) => void;
+}
+
+type StepDetails = Partial<Pick<SortStep, 'comparing' | 'swapping' | 'range' | 'pivot'>>;
+
+// Records a snapshot of the array after every interesting operation
+export class StepRecorder {
+  readonly array: number[];
+  readonly steps: SortStep[] = [];
+  private readonly sortedIndices = new Set<number>();
+  private comparisons = 0;
+  private swaps = 0;
+
+  constructor(input: number[]) {
+    this.array = [...input];
+  }
+
+  get length(): number {
+    return this.array.length;
+  }
+
+  record(line: number, description: string, details: StepDetails = {}): void {
+    this.steps.push({
+      array: [...this.array],
+      comparing: details.comparing ?? [],
+      swapping: details.swapping ?? [],
+      sorted: [...this.sortedIndices].sort((a, b) => a - b),
+      range: details.range,
+      pivot: details.pivot,
+      line,
+      comparisons: this.comparisons,
+      swaps: this.swaps,
+      description,
+    });
+  }
+
+  compareValues(a: number, b: number, indices: number[], line: number, details: StepDetails = {}): number {
+    this.comparisons++;
+    this.record(line, `Compare ${a} and ${b}`, {...details, comparing: indices});
+    return a - b;
+  }
+
+  compare(i: number, j: number, line: number, details: StepDetails = {}): number {
+    return this.compareValues(this.array[i], this.array[j], [i, j], line, details);
+  }
+
+  swap(i: number, j: number, line: number, details: StepDetails = {}): void {
+    if (i !== j) {
+      [this.array[i], this.array[j]] = [this.array[j], this.array[i]];
+      this.swaps++;
+      this.record(line, `Swap ${this.array[j]} and ${this.array[i]}`, {...details, swapping: [i, j]});
+    }
+  }
+
+  write(index: number, value: number, line: number, details: StepDetails = {}): void {
+    this.array[index] = value;
+    this.swaps++;
+    this.record(line, `Write ${value} to index ${index}`, {...details, swapping: [index]});
+  }
+
+  markSorted(...indices: number[]): void {
+    indices.forEach((index) => this.sortedIndices.add(index));
+  }
+
+  markAllSorted(): void {
+    this.array.forEach((_, index) => this.sortedIndices.add(index));
+  }
+}
+
+function bubbleSort(r: StepRecorder): void {
+  const n = r.length;
+  for (let i = 0; i < n - 1; i++) {
+    let swapped = false;
+    r.record(1, `Pass ${i + 1}: reset swapped flag`);
+    for (let j = 0; j < n - i - 1; j++) {
+      r.record(2, `Inner loop at index ${j}`, {comparing: [j, j + 1]});
+      if (r.compare(j, j + 1, 3) > 0) {
+        r.swap(j, j + 1, 4);
+        swapped = true;
+      }
+    }
+    r.markSorted(n - i - 1);
+    if (!swapped) {
+      r.markAllSorted();
+      r.record(5, 'No swaps in this pass - the array is sorted');
+      return;
+    }
+  }
+  r.markAllSorted();
+}
+
+function selectionSort(r: StepRecorder): void {
+  const n = r.length;
+  for (let i = 0; i < n - 1; i++) {
+    let min = i;
+    r.record(1, `Assume ${r.array[i]} at index ${i} is the minimum`, {pivot: min});
+    for (let j = i + 1; j < n; j++) {
+      r.record(2, `Scan index ${j}`, {pivot: min});
+      if (r.compare(j, min, 3, {pivot: min}) < 0) {
+        min = j;
+        r.record(4, `New minimum ${r.array[min]} at index ${min}`, {pivot: min});
+      }
+    }
+    r.swap(i, min, 5);
+    r.markSorted(i);
+  }
+  r.markAllSorted();
+}
+
+function insertionSort(r: StepRecorder): void {
+  const n = r.length;
+  r.markSorted(0);
+  for (let i = 1; i < n; i++) {
+    const key = r.array[i];
+    let j = i - 1;
+    r.record(1, `Pick key ${key} from index ${i}`, {pivot: i, range: [0, i]});
+    while (j >= 0) {
+      r.record(2, `Check index ${j}`, {range: [0, i]});
+      if (r.compareValues(r.array[j], key, [j], 2, {range: [0, i]}) <= 0) {
+        break;
+      }
+      r.write(j + 1, r.array[j], 3, {range: [0, i]});
+      j--;
+    }
+    // A key that never moved is not a shift, so sorted input shows none
+    if (j + 1 === i) {
+      r.record(4, `${key} is already in place`, {range: [0, i]});
+    } else {
+      r.write(j + 1, key, 4, {range: [0, i]});
+    }
+    r.markSorted(i);
+  }
+  r.markAllSorted();
+}
+
+function mergeSort(r: StepRecorder): void {
+  const sort = (lo: number, hi: number): void => {
+    r.record(0, `mergeSort(${lo}, ${hi})`, {range: [lo, hi]});
+    if (lo >= hi) {
+      r.record(1, 'Single element - already sorted', {range: [lo, hi]});
+      return;
+    }
+    const mid = Math.floor((lo + hi) / 2);
+    r.record(2, `Split at mid = ${mid}`, {range: [lo, hi], pivot: mid});
+    sort(lo, mid);
+    sort(mid + 1, hi);
+    r.record(3, `Merge [${lo}..${mid}] and [${mid + 1}..${hi}]`, {range: [lo, hi]});
+
+    const left = r.array.slice(lo, mid + 1);
+    const right = r.array.slice(mid + 1, hi + 1);
+    let i = 0;
+    let j = 0;
+    let k = lo;
+    while (i < left.length && j < right.length) {
+      r.record(4, 'Both runs still have items', {range: [lo, hi]});
+      // Compare the saved runs - the array itself is being overwritten from k onwards
+      if (r.compareValues(left[i], right[j], [k], 5, {range: [lo, hi]}) <= 0) {
+        r.write(k++, left[i++], 5, {range: [lo, hi]});
+      } else {
+        r.write(k++, right[j++], 5, {range: [lo, hi]});
+      }
+    }
+    while (i < left.length) {
+      r.write(k++, left[i++], 6, {range: [lo, hi]});
+    }
+    while (j < right.length) {
+      r.write(k++, right[j++], 6, {range: [lo, hi]});
+    }
+  };
+
+  sort(0, r.length - 1);
+  r.markAllSorted();
+}
+
+function quickSort(r: StepRecorder): void {
+  const sort = (low: number, high: number): void => {
+    r.record(0, `quickSort(${low}, ${high})`, {range: [low, high]});
+    if (low >= high) {
+      if (low === high) {
+        r.markSorted(low);
+      }
+      r.record(1, 'Nothing to partition', {range: [low, high]});
+      return;
+    }
+    const pivot = r.array[high];
+    let i = low - 1;
+    r.record(2, `Pivot is ${pivot}`, {range: [low, high], pivot: high});
+    for (let j = low; j < high; j++) {
+      r.record(3, `Scan index ${j}`, {range: [low, high], pivot: high});
+      if (r.compareValues(r.array[j], pivot, [j, high], 4, {range: [low, high], pivot: high}) <= 0) {
+        i++;
+        r.swap(i, j, 5, {range: [low, high], pivot: high});
+      }
+    }
+    r.swap(i + 1, high, 6, {range: [low, high], pivot: i + 1});
+    r.markSorted(i + 1);
+    r.record(6, `Pivot ${pivot} placed at index ${i + 1}`, {range: [low, high], pivot: i + 1});
+    r.record(7, 'Recurse into both sides', {range: [low, high], pivot: i + 1});
+    sort(low, i);
+    sort(i + 2, high);
+  };
+
+  sort(0, r.length - 1);
+  r.markAllSorted();
+}
+
+function heapSort(r: StepRecorder): void {
+  const n = r.length;
+  const heapify = (size: number, i: number): void => {
+    let largest = i;
+    r.record(4, `heapify(${size}, ${i})`, {range: [0, size - 1], pivot: i});
+    const children = [2 * i + 1, 2 * i + 2];
+    for (const child of children) {
+      if (child < size && r.compare(child, largest, 5, {range: [0, size - 1], pivot: i}) > 0) {
+        largest = child;
+      }
+    }
+    if (largest !== i) {
+      r.swap(i, largest, 6, {range: [0, size - 1]});
+      heapify(size, largest);
+    }
+  };
+
+  for (let i = Math.floor(n / 2) - 1; i >= 0; i--) {
+    r.record(0, `Build max heap: sift down index ${i}`, {range: [0, n - 1]});
+    heapify(n, i);
+  }
+  for (let end = n - 1; end > 0; end--) {
+    r.record(1, `Move max to index ${end}`, {range: [0, end]});
+    r.swap(0, end, 2, {range: [0, end]});
+    r.markSorted(end);
+    r.record(3, 'Restore heap property', {range: [0, end - 1]});
+    heapify(end, 0);
+  }
+  r.markAllSorted();
+}
+
+export const algorithms: Record<SortingAlgorithm, AlgorithmDefinition> = {
+  bubble: {
+    name: 'Bubble Sort',
+    moveLabel: 'Swaps',
+    pseudoCode: [
+      'for i from 0 to n - 2',
+      '  swapped = false',
+      '  for j from 0 to n - i - 2',
+      '    if a[j] > a[j + 1]',
+      '      swap(a[j], a[j + 1]); swapped = true',
+      '  if not swapped: break',
+    ],
+    run: bubbleSort,
+  },
+  selection: {
+    name: 'Selection Sort',
+    moveLabel: 'Swaps',
+    pseudoCode: [
+      'for i from 0 to n - 2',
+      '  min = i',
+      '  for j from i + 1 to n - 1',
+      '    if a[j] < a[min]',
+      '      min = j',
+      '  swap(a[i], a[min])',
+    ],
+    run: selectionSort,
+  },
+  insertion: {
+    name: 'Insertion Sort',
+    moveLabel: 'Shifts',
+    pseudoCode: [
+      'for i from 1 to n - 1',
+      '  key = a[i]; j = i - 1',
+      '  while j >= 0 and a[j] > key',
+      '    a[j + 1] = a[j]; j = j - 1',
+      '  a[j + 1] = key',
+    ],
+    run: insertionSort,
+  },
+  merge: {
+    name: 'Merge Sort',
+    moveLabel: 'Writes',
+    pseudoCode: [
+      'mergeSort(lo, hi):',
+      '  if lo >= hi: return',
+      '  mid = (lo + hi) / 2',
+      '  mergeSort(lo, mid); mergeSort(mid + 1, hi); merge',
+      '  while both runs have items',
+      '    a[k++] = smaller of left[i], right[j]',
+      '  copy the leftovers of either run',
+    ],
+    run: mergeSort,
+  },
+  quick: {
+    name: 'Quick Sort',
+    moveLabel: 'Swaps',
+    pseudoCode: [
+      'quickSort(low, high):',
+      '  if low >= high: return',
+      '  pivot = a[high]; i = low - 1',
+      '  for j from low to high - 1',
+      '    if a[j] <= pivot',
+      '      i++; swap(a[i], a[j])',
+      '  swap(a[i + 1], a[high])',
+      '  quickSort(low, i); quickSort(i + 2, high)',
+    ],
+    run: quickSort,
+  },
+  heap: {
+    name: 'Heap Sort',
+    moveLabel: 'Swaps',
+    pseudoCode: [
+      'for i from n / 2 - 1 down to 0: heapify(n, i)',
+      'for end from n - 1 down to 1',
+      '  swap(a[0], a[end])',
+      '  heapify(end, 0)',
+      'heapify(size, i): largest = i',
+      '  if a child is larger than a[largest]: largest = child',
+      '  if largest != i: swap(a[i], a[largest]); heapify(size, largest)',
+    ],
+    run: heapSort,
+  },
+};
+
+export function generateSteps(algorithm: SortingAlgorithm, input: number[]): SortStep[] {
+  const recorder = new StepRecorder(input);
+  recorder.record(-1, 'Initial array');
+  algorithms[algorithm].run(recorder);
+  recorder.record(-1, 'Array is sorted');
+  return recorder.steps;
+}
@@ -0,0 +1,247 @@
+import React, { useState, useEffect, useMemo, useCallback } from 'react';
+import { algorithms, generateSteps, type SortingAlgorithm } from './algorithms';
+import styles from './SortingVisualizer.module.css';
+
+interface SortingVisualizerProps {
+  algorithm: SortingAlgorithm;
+  initialArray?: number[];
+  className?: string;
+}
+
+const DEFAULT_ARRAY = [38, 27, 43, 3, 9, 82, 10];
+const MIN_LENGTH = 2;
+const MAX_LENGTH = 20;
+const MAX_VALUE = 999;
+const SPEEDS = [
+  { label: '0.25x', delay: 1600 },
+  { label: '0.5x', delay: 800 },
+  { label: '1x', delay: 400 },
+  { label: '2x', delay: 200 },
+  { label: '4x', delay: 100 },
+];
+
+function parseArray(input: string): number[] | string {
+  const parts = input.split(/[\s,]+/).filter(Boolean);
+  if (parts.length < MIN_LENGTH || parts.length > MAX_LENGTH) {
+    return `Enter between ${MIN_LENGTH} and ${MAX_LENGTH} numbers`;
+  }
+  const values = parts.map(Number);
+  if (values.some((value) => !Number.isInteger(value) || value < 0 || value > MAX_VALUE)) {
+    return `Use whole numbers from 0 to ${MAX_VALUE}`;
+  }
+  return values;
+}
+
+function randomArray(length: number): number[] {
+  return Array.from({ length }, () => Math.floor(Math.random() * 99) + 1);
+}
+
+const SortingVisualizer: React.FC<SortingVisualizerProps> = ({
+  algorithm,
+  initialArray = DEFAULT_ARRAY,
+  className,
+}) => {
+  const definition = algorithms[algorithm];
+  const [array, setArray] = useState<number[]>(initialArray);
+  const [input, setInput] = useState(initialArray.join(', '));
+  const [inputError, setInputError] = useState<string | null>(null);
+  const [stepIndex, setStepIndex] = useState(0);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [speedIndex, setSpeedIndex] = useState(2);
+
+  const steps = useMemo(() => generateSteps(algorithm, array), [algorithm, array]);
+  const step = steps[stepIndex];
+  const isFinished = stepIndex >= steps.length - 1;
+  const maxValue = Math.max(...step.array, 1);
+
+  // Advance one step per tick while playing
+  useEffect(() => {
+    if (!isPlaying) {
+      return undefined;
+    }
+    if (isFinished) {
+      setIsPlaying(false);
+      return undefined;
+    }
+    const timer = window.setTimeout(() => {
+      setStepIndex((index) => Math.min(index + 1, steps.length - 1));
+    }, SPEEDS[speedIndex].delay);
+    return () => window.clearTimeout(timer);
+  }, [isPlaying, isFinished, stepIndex, speedIndex, steps.length]);
+
+  const loadArray = useCallback((values: number[]) => {
+    setArray(values);
+    setInput(values.join(', '));
+    setInputError(null);
+    setStepIndex(0);
+    setIsPlaying(false);
+  }, []);
+
+  const applyInput = () => {
+    const parsed = parseArray(input);
+    if (typeof parsed === 'string') {
+      setInputError(parsed);
+      return;
+    }
+    loadArray(parsed);
+  };
+
+  const togglePlay = () => {
+    if (isFinished) {
+      setStepIndex(0);
+    }
+    setIsPlaying(!isPlaying);
+  };
+
+  const stepForward = () => {
+    setIsPlaying(false);
+    setStepIndex((index) => Math.min(index + 1, steps.length - 1));
+  };
+
+  const stepBack = () => {
+    setIsPlaying(false);
+    setStepIndex((index) => Math.max(index - 1, 0));
+  };
+
+  const reset = () => {
+    setIsPlaying(false);
+    setStepIndex(0);
+  };
+
+  const barClassName = (index: number): string => {
+    const classes = [styles.bar];
+    if (step.range && (index < step.range[0] || index > step.range[1])) {
+      classes.push(styles.inactive);
+    }
+    if (step.sorted.includes(index)) {
+      classes.push(styles.sorted);
+    }
+    if (step.pivot === index) {
+      classes.push(styles.pivot);
+    }
+    if (step.comparing.includes(index)) {
+      classes.push(styles.comparing);
+    }
+    if (step.swapping.includes(index)) {
+      classes.push(styles.swapping);
+    }
+    return classes.join(' ');
+  };
+
+  return (
+    <div className={`${styles.visualizer} ${className || ''}`}>
+      <div className={styles.header}>
+        <span className={styles.title}>{definition.name} Visualizer</span>
+        <div className={styles.counters}>
+          <span className={styles.counter}>
+            Comparisons <strong>{step.comparisons}</strong>
+          </span>
+          <span className={styles.counter}>
+            {definition.moveLabel} <strong>{step.swaps}</strong>
+          </span>
+        </div>
+      </div>
+
+      <div className={styles.body}>
+        <div className={styles.stage}>
+          <div className={styles.bars}>
+            {step.array.map((value, index) => (
+              <div key={index} className={styles.barColumn}>
+                <div
+                  className={barClassName(index)}
+                  style={{ height: `${Math.max((value / maxValue) * 100, 4)}%` }}
+                />
+                <span className={styles.barValue}>{value}</span>
+              </div>
+            ))}
+          </div>
+          <p className={styles.description} aria-live="polite">
+            {step.description}
+          </p>
+          <div className={styles.legend}>
+            <span><i className={styles.comparing} /> Comparing</span>
+            <span><i className={styles.swapping} /> Moving</span>
+            <span><i className={styles.pivot} /> Pivot / key</span>
+            <span><i className={styles.sorted} /> Sorted</span>
+          </div>
+        </div>
+
+        <ol className={styles.pseudoCode} start={1}>
+          {definition.pseudoCode.map((line, index) => (
+            <li
+              key={index}
+              className={index === step.line ? styles.activeLine : undefined}
+            >
+              <code>{line}</code>
+            </li>
+          ))}
+        </ol>
+      </div>
+
+      <div className={styles.controls}>
+        <button className={styles.button} onClick={reset} disabled={stepIndex === 0} title="Reset" aria-label="Reset">
+          <svg viewBox="0 0 24 24" className={styles.icon}>
+            <path d="M6 6h2v12H6zm3.5 6 8.5 6V6z"/>
+          </svg>
+        </button>
+        <button className={styles.button} onClick={stepBack} disabled={stepIndex === 0} title="Step back" aria-label="Step back">
+          <svg viewBox="0 0 24 24" className={styles.icon}>
+            <path d="M15.41 7.41 14 6l-6 6 6 6 1.41-1.41L10.83 12z"/>
+          </svg>
+        </button>
+        <button className={`${styles.button} ${styles.playButton}`} onClick={togglePlay} title={isPlaying ? 'Pause' : 'Play'} aria-label={isPlaying ? 'Pause' : 'Play'}>
+          {isPlaying ? (
+            <svg viewBox="0 0 24 24" className={styles.icon}>
+              <path d="M6 19h4V5H6v14zm8-14v14h4V5h-4z"/>
+            </svg>
+          ) : (
+            <svg viewBox="0 0 24 24" className={styles.icon}>
+              <path d="M8 5v14l11-7z"/>
+            </svg>
+          )}
+        </button>
+        <button className={styles.button} onClick={stepForward} disabled={isFinished} title="Step forward" aria-label="Step forward">
+          <svg viewBox="0 0 24 24" className={styles.icon}>
+            <path d="M10 6 8.59 7.41 13.17 12l-4.58 4.59L10 18l6-6z"/>
+          </svg>
+        </button>
+
+        <label className={styles.speed}>
+          Speed
+          <input
+            type="range"
+            min={0}
+            max={SPEEDS.length - 1}
+            value={speedIndex}
+            onChange={(e) => setSpeedIndex(Number(e.target.value))}
+          />
+          <span>{SPEEDS[speedIndex].label}</span>
+        </label>
+
+        <span className={styles.progress}>
+          Step {stepIndex + 1} / {steps.length}
+        </span>
+      </div>
+
+      <div className={styles.editor}>
+        <input
+          className={styles.arrayInput}
+          value={input}
+          onChange={(e) => setInput(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && applyInput()}
+          aria-label="Array values"
+          spellCheck={false}
+        />
+        <button className={styles.textButton} onClick={applyInput}>
+          Apply
+        </button>
+        <button className={styles.textButton} onClick={() => loadArray(randomArray(array.length))}>
+          Random
+        </button>
+        {inputError && <span className={styles.error}>{inputError}</span>}
+      </div>
+    </div>
+  );
+};
+
+export default SortingVisualizer;
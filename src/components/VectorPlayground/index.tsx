@@ -0,0 +1,381 @@
+import React, { useState, useRef } from 'react';
+import {
+  add,
+  angle,
+  arc,
+  cross,
+  dot,
+  formatNumber,
+  formatVector,
+  norm,
+  operationLabels,
+  project,
+  projectToScreen,
+  screenDeltaToWorld,
+  type Operation,
+  type Vec3,
+  type View,
+} from './vectors';
+import styles from './VectorPlayground.module.css';
+
+type Mode = '2d' | '3d';
+type Handle = 'u' | 'v';
+
+interface VectorPlaygroundProps {
+  mode?: Mode;
+  u?: number[];
+  v?: number[];
+  operations?: Operation[];
+  className?: string;
+}
+
+interface Point {
+  x: number;
+  y: number;
+}
+
+const SIZE = 400;
+const UNIT = 36;
+const RANGE = 5;
+const SNAP = 0.5;
+const HANDLE_RADIUS = 9;
+const TOP_VIEW: View = { yaw: 0, pitch: Math.PI / 2 };
+const DEFAULT_VIEW: View = { yaw: -0.6, pitch: 0.45 };
+const OPERATIONS: Operation[] = ['sum', 'dot', 'angle', 'projection', 'cross'];
+const AXES: { label: string; direction: Vec3 }[] = [
+  { label: 'x', direction: [1, 0, 0] },
+  { label: 'y', direction: [0, 1, 0] },
+  { label: 'z', direction: [0, 0, 1] },
+];
+
+function toVec3(values: number[] | undefined, fallback: Vec3): Vec3 {
+  return values ? [values[0] ?? 0, values[1] ?? 0, values[2] ?? 0] : fallback;
+}
+
+function clamp(value: number): number {
+  return Math.min(Math.max(value, -RANGE), RANGE);
+}
+
+function arrowHead(from: Point, to: Point): string {
+  const length = Math.hypot(to.x - from.x, to.y - from.y);
+  if (length < 1) {
+    return '';
+  }
+  const ux = (to.x - from.x) / length;
+  const uy = (to.y - from.y) / length;
+  const size = Math.min(10, length / 2);
+  const baseX = to.x - ux * size;
+  const baseY = to.y - uy * size;
+  return `${to.x},${to.y} ${baseX - uy * size * 0.5},${baseY + ux * size * 0.5} ${baseX + uy * size * 0.5},${baseY - ux * size * 0.5}`;
+}
+
+const VectorPlayground: React.FC<VectorPlaygroundProps> = ({
+  mode: initialMode = '2d',
+  u: initialU,
+  v: initialV,
+  operations: initialOperations = ['sum', 'angle', 'projection'],
+  className,
+}) => {
+  const [mode, setMode] = useState<Mode>(initialMode);
+  const [u, setU] = useState<Vec3>(() => toVec3(initialU, initialMode === '3d' ? [3, 1, 1] : [3, 1, 0]));
+  const [v, setV] = useState<Vec3>(() => toVec3(initialV, [1, 3, 0]));
+  const [operations, setOperations] = useState<Operation[]>(initialOperations);
+  const [view, setView] = useState<View>(DEFAULT_VIEW);
+  const [dragging, setDragging] = useState<Handle | 'view' | null>(null);
+  const lastPoint = useRef<Point | null>(null);
+  const svgRef = useRef<SVGSVGElement>(null);
+
+  const dimensions = mode === '3d' ? 3 : 2;
+  const currentView = mode === '3d' ? view : TOP_VIEW;
+  const vectors: Record<Handle, Vec3> = { u, v };
+  const setters: Record<Handle, (value: Vec3) => void> = { u: setU, v: setV };
+  const isShown = (operation: Operation) => operations.includes(operation);
+
+  const sum = add(u, v);
+  const dotProduct = dot(u, v);
+  const theta = angle(u, v);
+  const projection = project(u, v);
+  const crossProduct = cross(u, v);
+
+  const toScreen = (p: Vec3): Point => {
+    const projected = projectToScreen(p, currentView);
+    return { x: SIZE / 2 + projected.x * UNIT, y: SIZE / 2 - projected.y * UNIT };
+  };
+
+  const toSvgPoint = (event: React.PointerEvent): Point => {
+    const matrix = svgRef.current?.getScreenCTM();
+    if (!matrix) {
+      return { x: 0, y: 0 };
+    }
+    const point = new DOMPoint(event.clientX, event.clientY).matrixTransform(matrix.inverse());
+    return { x: point.x, y: point.y };
+  };
+
+  const switchMode = (next: Mode) => {
+    if (next === '2d') {
+      // The plane view cannot show a z component, so flatten both vectors
+      setU([u[0], u[1], 0]);
+      setV([v[0], v[1], 0]);
+    }
+    setMode(next);
+  };
+
+  const toggleOperation = (operation: Operation) => {
+    setOperations(isShown(operation) ? operations.filter((o) => o !== operation) : [...operations, operation]);
+  };
+
+  const handlePointerDown = (event: React.PointerEvent, target: Handle | 'view') => {
+    if (target === 'view' && mode !== '3d') {
+      return;
+    }
+    event.stopPropagation();
+    (event.target as Element).setPointerCapture?.(event.pointerId);
+    lastPoint.current = toSvgPoint(event);
+    setDragging(target);
+  };
+
+  const handlePointerMove = (event: React.PointerEvent) => {
+    if (dragging === null || lastPoint.current === null) {
+      return;
+    }
+    const point = toSvgPoint(event);
+    const dx = (point.x - lastPoint.current.x) / UNIT;
+    const dy = -(point.y - lastPoint.current.y) / UNIT;
+    if (dragging === 'view') {
+      setView({
+        yaw: view.yaw + dx * 0.35,
+        pitch: Math.min(Math.max(view.pitch + dy * 0.35, -Math.PI / 2), Math.PI / 2),
+      });
+      lastPoint.current = point;
+    } else if (mode === '2d') {
+      // In the plane the arrowhead simply follows the pointer, snapped to the grid
+      const x = Math.round((point.x - SIZE / 2) / UNIT / SNAP) * SNAP;
+      const y = Math.round((SIZE / 2 - point.y) / UNIT / SNAP) * SNAP;
+      setters[dragging]([clamp(x), clamp(y), 0]);
+    } else {
+      // In 3D the arrowhead moves parallel to the screen
+      const moved = add(vectors[dragging], screenDeltaToWorld(dx, dy, view));
+      setters[dragging](moved.map((value) => clamp(Math.round(value * 10) / 10)) as Vec3);
+      lastPoint.current = point;
+    }
+  };
+
+  const handlePointerUp = () => {
+    setDragging(null);
+    lastPoint.current = null;
+  };
+
+  const updateComponent = (handle: Handle, index: number, value: number) => {
+    if (Number.isNaN(value)) {
+      return;
+    }
+    const next = [...vectors[handle]] as Vec3;
+    next[index] = clamp(value);
+    setters[handle](next);
+  };
+
+  const origin = toScreen([0, 0, 0]);
+  const renderArrow = (to: Vec3, className: string, label: string, from: Vec3 = [0, 0, 0]) => {
+    const start = toScreen(from);
+    const end = toScreen(to);
+    return (
+      <g className={className}>
+        <line x1={start.x} y1={start.y} x2={end.x} y2={end.y} />
+        <polygon points={arrowHead(start, end)} />
+        <text x={end.x + 8} y={end.y - 8}>{label}</text>
+      </g>
+    );
+  };
+
+  const gridLines: React.ReactNode[] = [];
+  const gridRange = mode === '3d' ? RANGE - 1 : RANGE;
+  for (let i = -gridRange; i <= gridRange; i++) {
+    const a1 = toScreen([i, -gridRange, 0]);
+    const a2 = toScreen([i, gridRange, 0]);
+    const b1 = toScreen([-gridRange, i, 0]);
+    const b2 = toScreen([gridRange, i, 0]);
+    gridLines.push(
+      <line key={`x${i}`} x1={a1.x} y1={a1.y} x2={a2.x} y2={a2.y} />,
+      <line key={`y${i}`} x1={b1.x} y1={b1.y} x2={b2.x} y2={b2.y} />,
+    );
+  }
+
+  const parallelogram = [[0, 0, 0] as Vec3, u, sum, v].map(toScreen).map((p) => `${p.x},${p.y}`).join(' ');
+  const arcPoints = arc(u, v, 0.8).map(toScreen);
+  const arcLabel = arc(u, v, 1.25, 2)[1];
+
+  return (
+    <div className={`${styles.playground} ${className || ''}`}>
+      <div className={styles.toolbar}>
+        <div className={styles.modes} role="group" aria-label="Dimensions">
+          {(['2d', '3d'] as Mode[]).map((m) => (
+            <button
+              key={m}
+              className={`${styles.modeButton} ${mode === m ? styles.active : ''}`}
+              onClick={() => switchMode(m)}
+              aria-pressed={mode === m}
+            >
+              {m.toUpperCase()}
+            </button>
+          ))}
+        </div>
+        <div className={styles.operations} role="group" aria-label="Overlays">
+          {OPERATIONS.map((operation) => (
+            <label key={operation} className={styles.field}>
+              <input type="checkbox" checked={isShown(operation)} onChange={() => toggleOperation(operation)} />
+              {operationLabels[operation]}
+            </label>
+          ))}
+        </div>
+      </div>
+      <p className={styles.hint}>
+        {mode === '3d'
+          ? 'Drag an arrowhead to move it parallel to the screen, or drag the background to rotate the view.'
+          : 'Drag the arrowheads of u and v. Positions snap to half units.'}
+      </p>
+
+      <div className={styles.body}>
+        <svg
+          ref={svgRef}
+          className={`${styles.canvas} ${mode === '3d' ? styles.rotatable : ''}`}
+          viewBox={`0 0 ${SIZE} ${SIZE}`}
+          onPointerDown={(e) => handlePointerDown(e, 'view')}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+          onPointerLeave={handlePointerUp}
+          role="img"
+          aria-label={`Vectors u ${formatVector(u, dimensions)} and v ${formatVector(v, dimensions)}`}
+        >
+          <g className={styles.grid}>{gridLines}</g>
+          <g className={styles.axes}>
+            {AXES.slice(0, dimensions).map(({ label, direction }) => {
+              const end = toScreen(direction.map((c) => c * gridRange) as Vec3);
+              return (
+                <g key={label}>
+                  <line x1={origin.x} y1={origin.y} x2={end.x} y2={end.y} />
+                  <text x={end.x + 4} y={end.y - 4}>{label}</text>
+                </g>
+              );
+            })}
+          </g>
+
+          {isShown('cross') && <polygon className={styles.area} points={parallelogram} />}
+          {isShown('sum') && (
+            <g className={styles.helper}>
+              <line x1={toScreen(u).x} y1={toScreen(u).y} x2={toScreen(sum).x} y2={toScreen(sum).y} />
+              <line x1={toScreen(v).x} y1={toScreen(v).y} x2={toScreen(sum).x} y2={toScreen(sum).y} />
+            </g>
+          )}
+          {isShown('angle') && arcPoints.length > 0 && (
+            <g className={styles.angle}>
+              <polyline points={arcPoints.map((p) => `${p.x},${p.y}`).join(' ')} />
+              <text x={toScreen(arcLabel).x} y={toScreen(arcLabel).y}>θ</text>
+            </g>
+          )}
+          {isShown('projection') && projection && (
+            <g>
+              <line className={styles.helper} x1={toScreen(u).x} y1={toScreen(u).y} x2={toScreen(projection).x} y2={toScreen(projection).y} />
+              {renderArrow(projection, styles.projectionVector, 'proj')}
+            </g>
+          )}
+          {isShown('sum') && renderArrow(sum, styles.sumVector, 'u+v')}
+          {isShown('cross') && mode === '3d' && renderArrow(crossProduct, styles.crossVector, 'u×v')}
+          {renderArrow(u, styles.uVector, 'u')}
+          {renderArrow(v, styles.vVector, 'v')}
+
+          {(['u', 'v'] as Handle[]).map((handle) => {
+            const tip = toScreen(vectors[handle]);
+            return (
+              <circle
+                key={handle}
+                className={`${styles.handle} ${handle === 'u' ? styles.uVector : styles.vVector}`}
+                cx={tip.x}
+                cy={tip.y}
+                r={HANDLE_RADIUS}
+                onPointerDown={(e) => handlePointerDown(e, handle)}
+              />
+            );
+          })}
+        </svg>
+
+        <div className={styles.panel}>
+          {(['u', 'v'] as Handle[]).map((handle) => (
+            <div key={handle} className={styles.components}>
+              <span className={`${styles.vectorName} ${handle === 'u' ? styles.uText : styles.vText}`}>{handle}</span>
+              {vectors[handle].slice(0, dimensions).map((value, index) => (
+                <input
+                  key={index}
+                  type="number"
+                  step={SNAP}
+                  min={-RANGE}
+                  max={RANGE}
+                  className={styles.componentInput}
+                  value={value}
+                  onChange={(e) => updateComponent(handle, index, Number(e.target.value))}
+                  aria-label={`${handle} ${AXES[index].label}`}
+                />
+              ))}
+              <span className={styles.norm}>‖{handle}‖ = {formatNumber(norm(vectors[handle]))}</span>
+            </div>
+          ))}
+
+          <dl className={styles.results}>
+            {isShown('sum') && (
+              <>
+                <dt>u + v</dt>
+                <dd>{formatVector(sum, dimensions)}</dd>
+              </>
+            )}
+            {isShown('dot') && (
+              <>
+                <dt>u · v</dt>
+                <dd>
+                  {u.slice(0, dimensions).map((c, i) => `${formatNumber(c)}·${formatNumber(v[i])}`).join(' + ')} ={' '}
+                  <strong>{formatNumber(dotProduct)}</strong>
+                  {Math.abs(dotProduct) < 1e-9 && theta !== null && <span className={styles.note}> perpendicular</span>}
+                </dd>
+              </>
+            )}
+            {isShown('angle') && (
+              <>
+                <dt>θ</dt>
+                <dd>
+                  {theta === null
+                    ? 'undefined for the zero vector'
+                    : `${formatNumber((theta * 180) / Math.PI)}° (${formatNumber(theta)} rad)`}
+                </dd>
+              </>
+            )}
+            {isShown('projection') && (
+              <>
+                <dt>proj_v u</dt>
+                <dd>{projection ? formatVector(projection, dimensions) : 'undefined when v is zero'}</dd>
+              </>
+            )}
+            {isShown('cross') && (
+              <>
+                <dt>u × v</dt>
+                <dd>
+                  {formatVector(crossProduct, 3)}
+                  {mode === '2d' && Math.abs(crossProduct[2]) > 1e-9 && (
+                    <span className={styles.note}> {crossProduct[2] > 0 ? 'out of' : 'into'} the screen</span>
+                  )}
+                  <br />
+                  area of the parallelogram = {formatNumber(norm(crossProduct))}
+                </dd>
+              </>
+            )}
+          </dl>
+
+          {mode === '3d' && (
+            <button className={styles.textButton} onClick={() => setView(DEFAULT_VIEW)}>
+              Reset view
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default VectorPlayground;
@@ -0,0 +1,112 @@
+export type Vec3 = [number, number, number];
+
+export type Operation = 'sum' | 'dot' | 'angle' | 'projection' | 'cross';
+
+export interface View {
+  // Rotation around the vertical z axis, then tilt towards the viewer, in radians
+  yaw: number;
+  pitch: number;
+}
+
+export interface Projected {
+  x: number;
+  y: number;
+  depth: number;
+}
+
+export const operationLabels: Record<Operation, string> = {
+  sum: 'u + v',
+  dot: 'u · v',
+  angle: 'Angle θ',
+  projection: 'proj_v u',
+  cross: 'u × v',
+};
+
+const EPSILON = 1e-9;
+
+export function add(a: Vec3, b: Vec3): Vec3 {
+  return [a[0] + b[0], a[1] + b[1], a[2] + b[2]];
+}
+
+export function scale(a: Vec3, c: number): Vec3 {
+  return [a[0] * c, a[1] * c, a[2] * c];
+}
+
+export function dot(a: Vec3, b: Vec3): number {
+  return a[0] * b[0] + a[1] * b[1] + a[2] * b[2];
+}
+
+export function cross(a: Vec3, b: Vec3): Vec3 {
+  return [a[1] * b[2] - a[2] * b[1], a[2] * b[0] - a[0] * b[2], a[0] * b[1] - a[1] * b[0]];
+}
+
+export function norm(a: Vec3): number {
+  return Math.sqrt(dot(a, a));
+}
+
+export function isZero(a: Vec3): boolean {
+  return norm(a) < EPSILON;
+}
+
+// Angle in radians, or null when one of the vectors has no direction
+export function angle(a: Vec3, b: Vec3): number | null {
+  if (isZero(a) || isZero(b)) {
+    return null;
+  }
+  const cosine = dot(a, b) / (norm(a) * norm(b));
+  return Math.acos(Math.min(1, Math.max(-1, cosine)));
+}
+
+// Projection of a onto b, or null when b is the zero vector
+export function project(a: Vec3, b: Vec3): Vec3 | null {
+  const length = dot(b, b);
+  return length < EPSILON ? null : scale(b, dot(a, b) / length);
+}
+
+// Points along the shorter arc from a to b, used to draw the angle between them
+export function arc(a: Vec3, b: Vec3, radius: number, segments = 24): Vec3[] {
+  const theta = angle(a, b);
+  if (theta === null || theta < EPSILON || Math.PI - theta < 1e-3) {
+    return [];
+  }
+  const ua = scale(a, 1 / norm(a));
+  const ub = scale(b, 1 / norm(b));
+  return Array.from({ length: segments + 1 }, (_, i) => {
+    const t = i / segments;
+    const direction = add(scale(ua, Math.sin((1 - t) * theta)), scale(ub, Math.sin(t * theta)));
+    return scale(direction, radius / Math.sin(theta));
+  });
+}
+
+// Orthographic projection with z pointing up on screen when pitch is zero
+export function projectToScreen(p: Vec3, view: View): Projected {
+  const cosYaw = Math.cos(view.yaw);
+  const sinYaw = Math.sin(view.yaw);
+  const cosPitch = Math.cos(view.pitch);
+  const sinPitch = Math.sin(view.pitch);
+  const x1 = p[0] * cosYaw - p[1] * sinYaw;
+  const y1 = p[0] * sinYaw + p[1] * cosYaw;
+  return {
+    x: x1,
+    y: y1 * sinPitch + p[2] * cosPitch,
+    depth: y1 * cosPitch - p[2] * sinPitch,
+  };
+}
+
+// Inverse of projectToScreen for a movement parallel to the screen
+export function screenDeltaToWorld(dx: number, dy: number, view: View): Vec3 {
+  const cosYaw = Math.cos(view.yaw);
+  const sinYaw = Math.sin(view.yaw);
+  const y1 = dy * Math.sin(view.pitch);
+  const z = dy * Math.cos(view.pitch);
+  return [dx * cosYaw + y1 * sinYaw, -dx * sinYaw + y1 * cosYaw, z];
+}
+
+export function formatNumber(value: number): string {
+  const rounded = Math.round(value * 100) / 100;
+  return Object.is(rounded, -0) ? '0' : String(rounded);
+}
+
+export function formatVector(a: Vec3, dimensions: 2 | 3): string {
+  return `(${a.slice(0, dimensions).map(formatNumber).join(', ')})`;
+}
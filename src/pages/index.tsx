@@ -5,6 +5,13 @@ import useDocusaurusContext from '@docusaurus/useDocusaurusContext';
 import Layout from '@theme/Layout';
 import Heading from '@theme/Heading';
 import BuyMeCoffeeButton from '@site/src/components/BuyMeCoffeeButton';
+import TrackProgress from '@site/src/components/LearningProgress/TrackProgress';
+import ProgressTransfer from '@site/src/components/LearningProgress/ProgressTransfer';
+import CodeShowcase from '@site/src/components/CodeShowcase';
+import ContinueLearning from '@site/src/components/ReadingPosition/ContinueLearning';
+import SiteStats from '@site/src/components/SiteOverview/SiteStats';
+import RecentDocs from '@site/src/components/SiteOverview/RecentDocs';
+import {formatDuration, useSiteOverviewData} from '@site/src/components/SiteOverview/siteOverview';
 
 import styles from './index.module.css';
 
@@ -43,58 +50,7 @@ function HomepageHeader() {
             </div>
           </div>
           <div className={styles.heroVisual}>
-            <div className={styles.codeBlock}>
-              <div className={styles.codeHeader}>
-                <div className={styles.terminalButtons}>
-                  <span className={styles.terminalButton}></span>
-                  <span className={styles.terminalButton}></span>
-                  <span className={styles.terminalButton}></span>
-                </div>
-                <span className={styles.fileName}>dijkstra.go</span>
-                <span className={styles.codeLang}>go</span>
-              </div>
-              <pre className={styles.codeContent}>
-                <span className="token comment">// Dijkstra's Algorithm Implementation</span>{'\n'}
-                <span className="token keyword">type</span> <span className="token class-name">Edge</span> <span className="token keyword">struct</span> <span className="token punctuation">{'{'}</span>{'\n'}
-                {'    '}<span className="token property">to</span>     <span className="token builtin">int</span>{'\n'}
-                {'    '}<span className="token property">weight</span> <span className="token builtin">int</span>{'\n'}
-                <span className="token punctuation">{'}'}</span>{'\n'}
-                {'\n'}
-                <span className="token keyword">type</span> <span className="token class-name">Graph</span> <span className="token keyword">struct</span> <span className="token punctuation">{'{'}</span>{'\n'}
-                {'    '}<span className="token property">vertices</span> <span className="token builtin">int</span>{'\n'}
-                {'    '}<span className="token property">edges</span>    <span className="token punctuation">[][]</span><span className="token class-name">Edge</span>{'\n'}
-                <span className="token punctuation">{'}'}</span>{'\n'}
-                {'\n'}
-                <span className="token keyword">func</span> <span className="token punctuation">(</span><span className="token parameter">g</span> <span className="token operator">*</span><span className="token class-name">Graph</span><span className="token punctuation">)</span> <span className="token function">AddEdge</span><span className="token punctuation">(</span><span className="token parameter">from</span><span className="token punctuation">,</span> <span className="token parameter">to</span><span className="token punctuation">,</span> <span className="token parameter">weight</span> <span className="token builtin">int</span><span className="token punctuation">)</span> <span className="token punctuation">{'{'}</span>{'\n'}
-                {'    '}<span className="token parameter">g</span><span className="token punctuation">.</span><span className="token property">edges</span><span className="token punctuation">[</span><span className="token parameter">from</span><span className="token punctuation">]</span> <span className="token operator">=</span> <span className="token function">append</span><span className="token punctuation">(</span><span className="token parameter">g</span><span className="token punctuation">.</span><span className="token property">edges</span><span className="token punctuation">[</span><span className="token parameter">from</span><span className="token punctuation">],</span> {'\n'}
-                {'        '}<span className="token class-name">Edge</span><span className="token punctuation">{'{'}</span><span className="token property">to</span><span className="token punctuation">:</span> <span className="token parameter">to</span><span className="token punctuation">,</span> <span className="token property">weight</span><span className="token punctuation">:</span> <span className="token parameter">weight</span><span className="token punctuation">{'}})'}</span>{'\n'}
-                <span className="token punctuation">{'}'}</span>{'\n'}
-                {'\n'}
-                <span className="token keyword">func</span> <span className="token punctuation">(</span><span className="token parameter">g</span> <span className="token operator">*</span><span className="token class-name">Graph</span><span className="token punctuation">)</span> <span className="token function">Dijkstra</span><span className="token punctuation">(</span><span className="token parameter">start</span> <span className="token builtin">int</span><span className="token punctuation">)</span> <span className="token punctuation">[]</span><span className="token builtin">int</span> <span className="token punctuation">{'{'}</span>{'\n'}
-                {'    '}<span className="token parameter">dist</span> <span className="token operator">:=</span> <span className="token function">make</span><span className="token punctuation">([]</span><span className="token builtin">int</span><span className="token punctuation">,</span> <span className="token parameter">g</span><span className="token punctuation">.</span><span className="token property">vertices</span><span className="token punctuation">)</span>{'\n'}
-                {'    '}<span className="token parameter">visited</span> <span className="token operator">:=</span> <span className="token function">make</span><span className="token punctuation">([]</span><span className="token builtin">bool</span><span className="token punctuation">,</span> <span className="token parameter">g</span><span className="token punctuation">.</span><span className="token property">vertices</span><span className="token punctuation">)</span>{'\n'}
-                {'    '}{'\n'}
-                {'    '}<span className="token keyword">for</span> <span className="token parameter">i</span> <span className="token operator">:=</span> <span className="token keyword">range</span> <span className="token parameter">dist</span> <span className="token punctuation">{'{'}</span>{'\n'}
-                {'        '}<span className="token parameter">dist</span><span className="token punctuation">[</span><span className="token parameter">i</span><span className="token punctuation">]</span> <span className="token operator">=</span> <span className="token property">math</span><span className="token punctuation">.</span><span className="token property">MaxInt32</span>{'\n'}
-                {'    '}<span className="token punctuation">{'}'}</span>{'\n'}
-                {'    '}<span className="token parameter">dist</span><span className="token punctuation">[</span><span className="token parameter">start</span><span className="token punctuation">]</span> <span className="token operator">=</span> <span className="token number">0</span>{'\n'}
-                {'    '}{'\n'}
-                {'    '}<span className="token keyword">for</span> <span className="token parameter">i</span> <span className="token operator">:=</span> <span className="token number">0</span><span className="token punctuation">;</span> <span className="token parameter">i</span> <span className="token operator">{'<'}</span> <span className="token parameter">g</span><span className="token punctuation">.</span><span className="token property">vertices</span><span className="token operator">-</span><span className="token number">1</span><span className="token punctuation">;</span> <span className="token parameter">i</span><span className="token operator">++</span> <span className="token punctuation">{'{'}</span>{'\n'}
-                {'        '}<span className="token parameter">u</span> <span className="token operator">:=</span> <span className="token function">minDistance</span><span className="token punctuation">(</span><span className="token parameter">dist</span><span className="token punctuation">,</span> <span className="token parameter">visited</span><span className="token punctuation">)</span>{'\n'}
-                {'        '}<span className="token parameter">visited</span><span className="token punctuation">[</span><span className="token parameter">u</span><span className="token punctuation">]</span> <span className="token operator">=</span> <span className="token boolean">true</span>{'\n'}
-                {'        '}{'\n'}
-                {'        '}<span className="token keyword">for</span> <span className="token parameter">_</span><span className="token punctuation">,</span> <span className="token parameter">edge</span> <span className="token operator">:=</span> <span className="token keyword">range</span> <span className="token parameter">g</span><span className="token punctuation">.</span><span className="token property">edges</span><span className="token punctuation">[</span><span className="token parameter">u</span><span className="token punctuation">]</span> <span className="token punctuation">{'{'}</span>{'\n'}
-                {'            '}<span className="token parameter">v</span> <span className="token operator">:=</span> <span className="token parameter">edge</span><span className="token punctuation">.</span><span className="token property">to</span>{'\n'}
-                {'            '}<span className="token keyword">if</span> <span className="token operator">!</span><span className="token parameter">visited</span><span className="token punctuation">[</span><span className="token parameter">v</span><span className="token punctuation">]</span> <span className="token operator">&&</span> <span className="token parameter">dist</span><span className="token punctuation">[</span><span className="token parameter">u</span><span className="token punctuation">]</span> <span className="token operator">!=</span> <span className="token property">math</span><span className="token punctuation">.</span><span className="token property">MaxInt32</span> <span className="token operator">&&</span>{'\n'}
-                {'               '}<span className="token parameter">dist</span><span className="token punctuation">[</span><span className="token parameter">u</span><span className="token punctuation">]</span><span className="token operator">+</span><span className="token parameter">edge</span><span className="token punctuation">.</span><span className="token property">weight</span> <span className="token operator">{'<'}</span> <span className="token parameter">dist</span><span className="token punctuation">[</span><span className="token parameter">v</span><span className="token punctuation">]</span> <span className="token punctuation">{'{'}</span>{'\n'}
-                {'                '}<span className="token parameter">dist</span><span className="token punctuation">[</span><span className="token parameter">v</span><span className="token punctuation">]</span> <span className="token operator">=</span> <span className="token parameter">dist</span><span className="token punctuation">[</span><span className="token parameter">u</span><span className="token punctuation">]</span> <span className="token operator">+</span> <span className="token parameter">edge</span><span className="token punctuation">.</span><span className="token property">weight</span>{'\n'}
-                {'            '}<span className="token punctuation">{'}'}</span>{'\n'}
-                {'        '}<span className="token punctuation">{'}'}</span>{'\n'}
-                {'    '}<span className="token punctuation">{'}'}</span>{'\n'}
-                {'    '}<span className="token keyword">return</span> <span className="token parameter">dist</span>{'\n'}
-                <span className="token punctuation">{'}'}</span>
-              </pre>
-            </div>
+            <CodeShowcase />
           </div>
         </div>
       </div>
@@ -103,44 +59,38 @@ function HomepageHeader() {
 }
 
 function FeaturesSection() {
-  const features = [
-    {
-      title: 'Algorithms & Data Structures',
-      icon: '🧠',
-      description: 'Master sorting, searching, graph algorithms, and dynamic programming with step-by-step explanations.',
-      link: '/docs/algorithms/intro'
-    },
-    {
-      title: 'Mathematical Foundations',
-      icon: '📐',
-      description: 'Linear algebra, calculus, discrete math, and statistics for computer science applications.',
-      link: '/docs/mathematics/intro'
-    },
-    {
-      title: 'Distributed Systems',
-      icon: '🌐',
-      description: 'Build scalable, fault-tolerant systems with consensus algorithms and system design patterns.',
-      link: '/docs/distributed-systems/intro'
-    }
-  ];
+  // One card per top-level category of the main sidebar, see plugins/site-overview
+  const {sections} = useSiteOverviewData();
 
   return (
     <section className={styles.features}>
       <div className="container">
+        <SiteStats />
+        <ContinueLearning />
         <div className={styles.featuresGrid}>
-          {features.map((feature, idx) => (
+          {sections.map((section) => (
             <Link
-              key={idx}
-              to={feature.link}
+              key={section.label}
+              to={section.permalink}
               className={styles.featureCard}
             >
-              <div className={styles.featureIcon}>{feature.icon}</div>
-              <h3 className={styles.featureTitle}>{feature.title}</h3>
-              <p className={styles.featureDescription}>{feature.description}</p>
+              {section.icon && <div className={styles.featureIcon}>{section.icon}</div>}
+              <h3 className={styles.featureTitle}>{section.label}</h3>
+              <ul className={styles.featureTopics}>
+                {section.topics.map((topic) => (
+                  <li key={topic.label} className={styles.featureTopic}>
+                    {topic.label} · {topic.docCount}
+                  </li>
+                ))}
+              </ul>
+              <p className={styles.featureMeta}>{formatDuration(section.readingTime)} of reading</p>
+              <TrackProgress docIds={section.docIds} />
               <span className={styles.featureArrow}>→</span>
             </Link>
           ))}
         </div>
+        <RecentDocs />
+        <ProgressTransfer className={styles.progressTransfer} />
       </div>
     </section>
   );
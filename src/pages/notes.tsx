@@ -0,0 +1,68 @@
+import type {ReactNode} from 'react';
+import Link from '@docusaurus/Link';
+import useDocusaurusContext from '@docusaurus/useDocusaurusContext';
+import Layout from '@theme/Layout';
+import Heading from '@theme/Heading';
+import {groupByDoc, removeHighlight, toMarkdown, useHighlights} from '@site/src/components/Highlights/useHighlights';
+
+import styles from './notes.module.css';
+
+export default function Notes(): ReactNode {
+  const {siteConfig} = useDocusaurusContext();
+  const highlights = useHighlights();
+  const groups = groupByDoc(highlights);
+
+  const handleExport = () => {
+    const url = URL.createObjectURL(new Blob([toMarkdown(highlights, siteConfig.url)], {type: 'text/markdown'}));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'supdino-notes.md';
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <Layout title="My notes" description="Your highlights and notes from SupDino docs">
+      <main className={styles.notesPage}>
+        <div className="container">
+          <div className={styles.header}>
+            <div>
+              <Heading as="h1">My notes</Heading>
+              <p className={styles.subtitle}>
+                Select text on any doc page to highlight it or attach a note. Everything stays in this browser.
+              </p>
+            </div>
+            <button className="button button--primary" onClick={handleExport} disabled={highlights.length === 0}>
+              Export as Markdown
+            </button>
+          </div>
+
+          {groups.length === 0 && <p className={styles.empty}>No highlights yet.</p>}
+
+          {groups.map(([docId, docHighlights]) => (
+            <section key={docId} className={styles.doc}>
+              <Heading as="h2" className={styles.docTitle}>
+                <Link to={docHighlights[0].permalink}>{docHighlights[0].docTitle}</Link>
+                <span className={styles.count}>{docHighlights.length}</span>
+              </Heading>
+              <ul className={styles.list}>
+                {docHighlights.map((highlight) => (
+                  <li key={highlight.id} className={styles.item}>
+                    <blockquote className={`${styles.quote} ${styles[highlight.color]}`}>{highlight.exact}</blockquote>
+                    {highlight.note && <p className={styles.note}>{highlight.note}</p>}
+                    <div className={styles.meta}>
+                      <span>{new Date(highlight.createdAt).toLocaleDateString()}</span>
+                      <button className={styles.removeButton} onClick={() => removeHighlight(highlight.id)}>
+                        Remove
+                      </button>
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            </section>
+          ))}
+        </div>
+      </main>
+    </Layout>
+  );
+}
@@ -0,0 +1,83 @@
+import {useState, type ReactNode} from 'react';
+import Link from '@docusaurus/Link';
+import Layout from '@theme/Layout';
+import Heading from '@theme/Heading';
+import {formatReadingTime} from '@site/src/components/DocMeta/docMeta';
+import {useLearningProgress} from '@site/src/components/LearningProgress/useLearningProgress';
+import {useLearningPathsData, type GraphDoc} from '@site/src/components/LearningPaths/learningPaths';
+import {useVisitedDocs} from '@site/src/components/LearningPaths/useVisitedDocs';
+import PrerequisiteGraph from '@site/src/components/LearningPaths/PrerequisiteGraph';
+
+import styles from './paths.module.css';
+
+export default function Paths(): ReactNode {
+  const {docs, paths} = useLearningPathsData();
+  const completed = useLearningProgress();
+  const visited = useVisitedDocs() ?? {};
+  const [highlightedId, setHighlightedId] = useState<string | null>(null);
+  const highlightedPath = paths.find((learningPath) => learningPath.id === highlightedId) ?? null;
+  const byId = new Map(docs.map((doc) => [doc.id, doc]));
+
+  return (
+    <Layout title="Learning paths" description="Guided reading orders and how every SupDino doc builds on the others">
+      <main className={styles.pathsPage}>
+        <div className="container">
+          <Heading as="h1">Learning paths</Heading>
+          <p className={styles.subtitle}>
+            Follow a curated path, or explore the graph to see what each doc builds on. Progress stays in this browser.
+          </p>
+
+          <div className={styles.pathGrid}>
+            {paths.map((learningPath) => {
+              const steps = learningPath.docs.map((id) => byId.get(id)).filter((doc): doc is GraphDoc => !!doc);
+              const done = steps.filter((doc) => completed[doc.id]).length;
+              const next = steps.find((doc) => !completed[doc.id]);
+              const minutes = steps.reduce((sum, doc) => sum + (doc.readingTime ?? 0), 0);
+              const isHighlighted = learningPath.id === highlightedId;
+              return (
+                <section key={learningPath.id} className={`${styles.pathCard} ${isHighlighted ? styles.pathCardActive : ''}`}>
+                  <Heading as="h2" className={styles.pathTitle}>
+                    {learningPath.title}
+                  </Heading>
+                  <p className={styles.pathDescription}>{learningPath.description}</p>
+                  <div className={styles.pathMeta}>
+                    {steps.length} docs · {formatReadingTime(minutes)} · {done}/{steps.length} completed
+                  </div>
+                  <ol className={styles.steps}>
+                    {steps.map((doc) => (
+                      <li
+                        key={doc.id}
+                        className={completed[doc.id] ? styles.stepCompleted : visited[doc.id] ? styles.stepVisited : undefined}>
+                        <Link to={doc.permalink}>{doc.title}</Link>
+                      </li>
+                    ))}
+                  </ol>
+                  <div className={styles.pathActions}>
+                    {next ? (
+                      <Link className="button button--primary button--sm" to={next.permalink}>
+                        {done > 0 ? 'Continue' : 'Start'}
+                      </Link>
+                    ) : (
+                      <span className={styles.pathDone}>Path completed</span>
+                    )}
+                    <button
+                      className={styles.graphButton}
+                      aria-pressed={isHighlighted}
+                      onClick={() => setHighlightedId(isHighlighted ? null : learningPath.id)}>
+                      {isHighlighted ? 'Hide on graph' : 'Show on graph'}
+                    </button>
+                  </div>
+                </section>
+              );
+            })}
+          </div>
+
+          <Heading as="h2" id="graph" className={styles.graphTitle}>
+            Prerequisite graph
+          </Heading>
+          <PrerequisiteGraph docs={docs} highlightedPath={highlightedPath} />
+        </div>
+      </main>
+    </Layout>
+  );
+}
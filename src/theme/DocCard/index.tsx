@@ -0,0 +1,30 @@
+import React from 'react';
+import DocCard from '@theme-original/DocCard';
+import type { Props } from '@theme/DocCard';
+import type { PropSidebarItem } from '@docusaurus/plugin-content-docs';
+import DocMeta from '../../components/DocMeta';
+import { readDocMetadata } from '../../components/DocMeta/docMeta';
+import styles from './styles.module.css';
+
+function totalReadingTime(items: PropSidebarItem[]): number {
+  return items.reduce((total, item) => {
+    if (item.type === 'category') {
+      return total + totalReadingTime(item.items);
+    }
+    return total + (item.type === 'link' ? readDocMetadata(item.customProps).readingTime ?? 0 : 0);
+  }, 0);
+}
+
+// Category index pages list their docs as cards, each with its build-time reading time
+export default function DocCardWrapper(props: Props) {
+  const { item } = props;
+  const metadata =
+    item.type === 'category' ? { readingTime: totalReadingTime(item.items) || undefined } : readDocMetadata(item.customProps);
+
+  return (
+    <div className={styles.docCard}>
+      <DocCard {...props} />
+      <DocMeta {...metadata} className={styles.meta} />
+    </div>
+  );
+}
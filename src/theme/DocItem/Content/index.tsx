@@ -0,0 +1,25 @@
+import React from 'react';
+import DocItemContent from '@theme-original/DocItem/Content';
+import { useDoc } from '@docusaurus/plugin-content-docs/client';
+import DocMeta from '../../../components/DocMeta';
+import ResumeReading from '../../../components/ReadingPosition';
+import BeforeYouRead from '../../../components/LearningPaths/BeforeYouRead';
+import DownloadCode from '../../../components/DownloadCode';
+import { readDocMetadata } from '../../../components/DocMeta/docMeta';
+
+export default function DocItemContentWrapper(props) {
+  const { frontMatter, metadata } = useDoc();
+  // Computed at build time, see plugins/reading-time
+  const docMeta = readDocMetadata(frontMatter.sidebar_custom_props);
+
+  return (
+    <>
+      <DocMeta {...docMeta} className="margin-bottom--md">
+        <DownloadCode docId={metadata.id} />
+      </DocMeta>
+      <ResumeReading docId={metadata.id} title={metadata.title} permalink={metadata.permalink} />
+      <BeforeYouRead docId={metadata.id} />
+      <DocItemContent {...props} />
+    </>
+  );
+}
@@ -1,14 +1,26 @@
 import React from 'react';
 import DocItemFooter from '@theme-original/DocItem/Footer';
+import { useDoc } from '@docusaurus/plugin-content-docs/client';
 import ShareButton from '../../../components/ShareButton';
-import FontSizeControl from '../../../components/FontSizeControl';
+import Quiz from '../../../components/Quiz';
+import DocProgress from '../../../components/LearningProgress';
+import DocHighlights from '../../../components/Highlights';
+import DocContributors from '../../../components/Contributors/DocContributors';
+import type { DocFrontMatter } from '../../../components/DocMeta/frontMatter';
 
 export default function DocItemFooterWrapper(props) {
+  const { frontMatter, metadata } = useDoc();
+  // Declared in front matter or a sibling .quiz.yml, see plugins/quiz-front-matter
+  const { quiz } = frontMatter as DocFrontMatter;
+
   return (
     <>
-      <FontSizeControl />
+      {quiz && <Quiz questions={quiz} />}
+      <DocProgress docId={metadata.id} />
+      <DocHighlights docId={metadata.id} docTitle={metadata.title} permalink={metadata.permalink} />
+      <DocContributors docId={metadata.id} />
       <DocItemFooter {...props} />
-      <ShareButton />
+      <ShareButton title={metadata.title} description={metadata.description} />
     </>
   );
 }
@@ -0,0 +1,37 @@
+import React from 'react';
+import clsx from 'clsx';
+import DocSidebarItemCategory from '@theme-original/DocSidebarItem/Category';
+import type { Props } from '@theme/DocSidebarItem/Category';
+import type { PropSidebarItem } from '@docusaurus/plugin-content-docs';
+import { countCompleted, useLearningProgress } from '../../../components/LearningProgress/useLearningProgress';
+import styles from './styles.module.css';
+
+function collectDocIds(items: PropSidebarItem[]): string[] {
+  return items.flatMap((item) => {
+    if (item.type === 'category') {
+      return collectDocIds(item.items);
+    }
+    return item.type === 'link' && item.docId ? [item.docId] : [];
+  });
+}
+
+export default function DocSidebarItemCategoryWrapper(props: Props) {
+  const completed = useLearningProgress();
+  const { item } = props;
+  const docIds = collectDocIds(item.items);
+  const done = countCompleted(completed, docIds);
+
+  if (done === 0) {
+    return <DocSidebarItemCategory {...props} />;
+  }
+  const percent = Math.round((done / docIds.length) * 100);
+  // Extra props end up on the category link, where the stylesheet shows the percentage
+  const linkProps = { 'data-progress': `${percent}%`, title: `${done} of ${docIds.length} docs completed` };
+  return (
+    <DocSidebarItemCategory
+      {...props}
+      {...linkProps}
+      item={{ ...item, className: clsx(item.className, styles.tracked, percent === 100 && styles.finished) }}
+    />
+  );
+}
@@ -0,0 +1,24 @@
+import React from 'react';
+import clsx from 'clsx';
+import DocSidebarItemLink from '@theme-original/DocSidebarItem/Link';
+import type { Props } from '@theme/DocSidebarItem/Link';
+import { useLearningProgress } from '../../../components/LearningProgress/useLearningProgress';
+import { readDocMetadata } from '../../../components/DocMeta/docMeta';
+import styles from './styles.module.css';
+
+export default function DocSidebarItemLinkWrapper(props: Props) {
+  const completed = useLearningProgress();
+  const { item } = props;
+  const { readingTime } = readDocMetadata(item.customProps);
+  const isCompleted = item.docId !== undefined && Boolean(completed[item.docId]);
+  // Extra props end up on the link, where the stylesheet shows the reading time
+  const linkProps = readingTime !== undefined ? { 'data-reading-time': `${readingTime} min` } : {};
+
+  return (
+    <DocSidebarItemLink
+      {...props}
+      {...linkProps}
+      item={{ ...item, className: clsx(item.className, styles.item, isCompleted && styles.completed) }}
+    />
+  );
+}
@@ -0,0 +1,28 @@
+import MDXComponents from '@theme-original/MDXComponents';
+import SortingVisualizer from '@site/src/components/SortingVisualizer';
+import CodeTabs from '@site/src/components/CodeTabs';
+import GraphPlayground from '@site/src/components/GraphPlayground';
+import LogSimulator from '@site/src/components/LogSimulator';
+import LowWaterMarkSimulator from '@site/src/components/LowWaterMarkSimulator';
+import VectorPlayground from '@site/src/components/VectorPlayground';
+import Quiz from '@site/src/components/Quiz';
+import AlgorithmComparison from '@site/src/components/AlgorithmComparison';
+import BenchmarkLab from '@site/src/components/BenchmarkLab';
+import CodeWalkthrough from '@site/src/components/CodeWalkthrough';
+import WalkthroughStep from '@site/src/components/CodeWalkthrough/WalkthroughStep';
+
+// Components available in every doc and blog post without an import
+export default {
+  ...MDXComponents,
+  SortingVisualizer,
+  CodeTabs,
+  GraphPlayground,
+  LogSimulator,
+  LowWaterMarkSimulator,
+  VectorPlayground,
+  Quiz,
+  AlgorithmComparison,
+  BenchmarkLab,
+  CodeWalkthrough,
+  WalkthroughStep,
+};
@@ -1,5 +1,7 @@
 import React, {JSX} from 'react';
 import BuyMeCoffeeWidget from '@site/src/components/BuyMeCoffee';
+import ReadingModeBar from '@site/src/components/ReadingMode';
+import ReaderPreferences from '@site/src/components/ReaderPreferences';
 
 // Root wrapper that adds global components
 export default function Root({children}: {children: React.ReactNode}): JSX.Element {
@@ -7,6 +9,8 @@ export default function Root({children}: {children: React.ReactNode}): JSX.Eleme
     <>
       {children}
       <BuyMeCoffeeWidget />
+      <ReadingModeBar />
+      <ReaderPreferences />
     </>
   );
 }
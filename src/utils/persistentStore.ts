@@ -0,0 +1,74 @@
+import { useState, useEffect } from 'react';
+
+export interface PersistentStore<T> {
+  fallback: T;
+  read(): T;
+  write(value: T): void;
+  subscribe(listener: (value: T) => void): () => void;
+}
+
+interface PersistentStoreOptions<T> {
+  // Defaults to JSON, parse has to match
+  serialize?: (value: T) => string;
+}
+
+// A value kept in localStorage under one key. Writes reach every subscriber on the page, and
+// `storage` events keep other open tabs in sync as well. Reads return `fallback` when nothing
+// is stored, storage is unavailable or `parse` rejects the stored value by returning null or throwing.
+export function createPersistentStore<T>(
+  key: string,
+  parse: (stored: string) => T | null,
+  fallback: T,
+  { serialize = JSON.stringify }: PersistentStoreOptions<T> = {},
+): PersistentStore<T> {
+  const listeners = new Set<(value: T) => void>();
+
+  const read = (): T => {
+    try {
+      const stored = localStorage.getItem(key);
+      return stored === null ? fallback : (parse(stored) ?? fallback);
+    } catch {
+      return fallback;
+    }
+  };
+
+  return {
+    fallback,
+    read,
+    write(value) {
+      try {
+        localStorage.setItem(key, serialize(value));
+      } catch {
+        // Storage can be unavailable in private mode - the value still applies until the page is left
+      }
+      listeners.forEach((listener) => listener(value));
+    },
+    subscribe(listener) {
+      const handleStorage = (event: StorageEvent) => {
+        if (event.key === key) {
+          listener(read());
+        }
+      };
+      listeners.add(listener);
+      window.addEventListener('storage', handleStorage);
+      return () => {
+        listeners.delete(listener);
+        window.removeEventListener('storage', handleStorage);
+      };
+    },
+  };
+}
+
+// Renders `initial` (the store's fallback by default) on the server and before hydration, then the stored value
+export function usePersistentStore<T>(store: PersistentStore<T>): T;
+export function usePersistentStore<T, I>(store: PersistentStore<T>, initial: I): T | I;
+export function usePersistentStore<T, I>(store: PersistentStore<T>, initial?: I): T | I {
+  const [value, setValue] = useState<T | I>(initial === undefined ? store.fallback : initial);
+
+  useEffect(() => {
+    setValue(store.read());
+    return store.subscribe(setValue);
+  }, [store]);
+
+  return value;
+}